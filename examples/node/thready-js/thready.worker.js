@@ -1,21 +1,9 @@
 // Thready Browser Worker
-self.onmessage = function(event) {
-  const { id, taskType, payload } = event.data;
-  
-  try {
-    let result;
-    
-    // Add your custom task handlers here
-    switch (taskType) {
-      case 'example':
-        result = payload * 2;
-        break;
-      default:
-        throw new Error(`Unknown task type: ${taskType}`);
-    }
-    
-    self.postMessage({ id, type: 'result', payload: result });
-  } catch (error) {
-    self.postMessage({ id, type: 'error', payload: error.message });
-  }
-};
+import { defineWorker } from 'thready-js/worker';
+
+// Add your custom task handlers here.
+// Each key is a task type, each value receives the payload and returns the result
+// (async handlers are supported too).
+defineWorker({
+  example: (payload) => payload * 2,
+});
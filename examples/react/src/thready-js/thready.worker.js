@@ -1,42 +1,16 @@
 // Thready Browser Worker for React Example
-self.onmessage = function(event) {
-  const { id, taskType, payload, transferables } = event.data;
-  
-  try {
-    let result;
-    
-    // Add your custom task handlers here
-    switch (taskType) {
-      case 'fibonacci':
-        result = fibonacci(payload);
-        break;
-        
-      case 'findPrimes':
-        result = findPrimes(payload);
-        break;
-        
-      case 'processImage':
-        result = processImage(payload);
-        break;
-        
-      default:
-        throw new Error(`Unknown task type: ${taskType}`);
-    }
-    
-    // Send result back to main thread
-    if (result && result.buffer instanceof ArrayBuffer) {
-      // If result contains transferable objects, transfer them
-      self.postMessage(
-        { id, type: 'result', payload: result },
-        [result.buffer]
-      );
-    } else {
-      self.postMessage({ id, type: 'result', payload: result });
-    }
-  } catch (error) {
-    self.postMessage({ id, type: 'error', payload: error.message });
-  }
-};
+import { defineWorker, transfer } from 'thready-js/worker';
+
+// Register the task handlers - thready routes each taskType to its handler
+defineWorker({
+  fibonacci,
+  findPrimes,
+  // Transfer the result buffer back instead of copying it
+  processImage: (payload) => {
+    const result = processImage(payload);
+    return transfer(result, [result.data]);
+  },
+});
 
 // Calculate Fibonacci number recursively
 function fibonacci(n) {
@@ -0,0 +1,127 @@
+// ============================================================================
+// FILE JOB STORE (main thread, Node.js)
+// Journals durable jobs to an append-only file of JSON lines.
+// ============================================================================
+
+import type { JobRecord, JobStore } from './types.js';
+
+// One line of the journal.
+type JournalEntry =
+  | { op: 'save'; job: JobRecord }
+  | { op: 'delete'; id: string };
+
+// The parts of fs/promises used here.
+interface FileHandle {
+  appendFile(data: string): Promise<void>;
+  datasync(): Promise<void>;
+  close(): Promise<void>;
+}
+interface FsPromises {
+  open(path: string, flags: string): Promise<FileHandle>;
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string): Promise<void>;
+  rename(from: string, to: string): Promise<void>;
+}
+
+/**
+ * Loads fs/promises lazily, so browser bundles never include it.
+ */
+function loadFs(): Promise<FsPromises> {
+  const moduleName = 'fs/promises';
+  return import(/* @vite-ignore */ /* webpackIgnore: true */ moduleName);
+}
+
+/**
+ * FileJobStore Class
+ *
+ * A JobStore backed by a local append-only journal: every change of a job is
+ * appended as one JSON line, and the journal is compacted to the current
+ * jobs when it is loaded. A line torn by a crash during a write is skipped.
+ * Node.js only.
+ */
+export class FileJobStore implements JobStore {
+  private fs: FsPromises | null = null;
+  private handle: FileHandle | null = null;
+
+  /**
+   * @param path - Path of the journal file. Created if it doesn't exist.
+   * @param options.sync - Flush every write to disk before it counts as
+   * saved, so jobs survive a power loss too. Defaults to true.
+   */
+  constructor(
+    private readonly path: string,
+    private readonly options: { sync?: boolean } = {}
+  ) {}
+
+  /**
+   * Reads the journal, replays it and rewrites it with only the current jobs.
+   */
+  public async load(): Promise<JobRecord[]> {
+    this.fs ??= await loadFs();
+
+    let content = '';
+    try {
+      content = await this.fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'ENOENT') throw error;
+    }
+
+    const jobs = new Map<string, JobRecord>();
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      if (entry.op === 'save') {
+        jobs.set(entry.job.id, entry.job);
+      } else if (entry.op === 'delete') {
+        jobs.delete(entry.id);
+      }
+    }
+
+    // Compact: write the current jobs to a new file and swap it in atomically.
+    await this.handle?.close();
+    const compacted = [...jobs.values()].map(job => serialize({ op: 'save', job })).join('');
+    await this.fs.writeFile(`${this.path}.tmp`, compacted);
+    await this.fs.rename(`${this.path}.tmp`, this.path);
+    this.handle = await this.fs.open(this.path, 'a');
+
+    return [...jobs.values()];
+  }
+
+  public async save(job: JobRecord): Promise<void> {
+    await this.append({ op: 'save', job });
+  }
+
+  public async delete(id: string): Promise<void> {
+    await this.append({ op: 'delete', id });
+  }
+
+  public async close(): Promise<void> {
+    const handle = this.handle;
+    this.handle = null;
+    await handle?.close();
+  }
+
+  private async append(entry: JournalEntry): Promise<void> {
+    if (!this.handle) {
+      this.fs ??= await loadFs();
+      this.handle = await this.fs.open(this.path, 'a');
+    }
+
+    await this.handle.appendFile(serialize(entry));
+    if (this.options.sync ?? true) await this.handle.datasync();
+  }
+}
+
+/**
+ * Formats a journal entry as one line.
+ */
+function serialize(entry: JournalEntry): string {
+  return JSON.stringify(entry) + '\n';
+}
@@ -0,0 +1,100 @@
+// ============================================================================
+// HASH RING (main thread)
+// Consistent hashing used to route tasks with an affinity key to a worker.
+// ============================================================================
+
+// Points each node places on the ring. More points spread keys more evenly.
+const POINTS_PER_NODE = 128;
+
+/**
+ * A node's position on the ring.
+ */
+interface RingPoint<T> {
+  hash: number;
+  node: T;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string, finished with murmur3's fmix32 so that
+ * similar short strings (`worker#1`, `tenant-1`...) spread over the ring
+ * instead of clustering.
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * HashRing Class
+ *
+ * Maps keys to nodes so that adding or removing a node only moves the keys
+ * of that node - all other keys keep their node. Nodes are placed by a stable
+ * ID, so a node added under the ID of a removed one takes over exactly its keys.
+ *
+ * @template T - Type of the nodes.
+ */
+export class HashRing<T> {
+  // Points of all nodes, sorted by hash.
+  private points: RingPoint<T>[] = [];
+
+  /**
+   * Number of points on the ring (0 when empty).
+   */
+  public get size(): number {
+    return this.points.length;
+  }
+
+  /**
+   * Adds a node at the positions derived from its ID.
+   *
+   * @param node - The node.
+   * @param id - Stable ID that determines the node's positions.
+   */
+  public add(node: T, id: string | number): void {
+    for (let i = 0; i < POINTS_PER_NODE; i++) {
+      this.points.push({ hash: hashString(`${id}#${i}`), node });
+    }
+    this.points.sort((a, b) => a.hash - b.hash);
+  }
+
+  /**
+   * Removes all points of a node. Its keys move to the next nodes on the ring.
+   */
+  public remove(node: T): void {
+    this.points = this.points.filter(point => point.node !== node);
+  }
+
+  /**
+   * Returns the node owning a key: the first point at or after the key's hash.
+   *
+   * @returns The node, or undefined if the ring is empty.
+   */
+  public get(key: string): T | undefined {
+    if (this.points.length === 0) return undefined;
+
+    const hash = hashString(key);
+    let low = 0;
+    let high = this.points.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.points[mid]!.hash < hash) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    // Past the last point, wrap around to the first.
+    return this.points[low % this.points.length]!.node;
+  }
+}
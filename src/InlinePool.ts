@@ -0,0 +1,302 @@
+// ============================================================================
+// INLINE POOL (main thread)
+// Runs task handlers on the main thread behind the WorkerPool API, so code
+// using thready can be unit-tested without building and spawning workers.
+// ============================================================================
+
+import type {
+  WorkerMessage,
+  WorkerResponse,
+  InlinePoolConfig,
+  InlineSimulation,
+  DispatchRecord,
+  TaskName
+} from './types.js';
+import type { TaskHandlers, DefineWorkerOptions } from './worker.js';
+import { serveWorker } from './worker.js';
+import { WorkerPool } from './WorkerPool.js';
+
+// Simulation key applying to all task types without their own simulation.
+const ANY_TASK = '*';
+
+/**
+ * State shared by the inline workers of one pool: the handlers, the dispatch
+ * log and the simulated behavior.
+ */
+class InlineRuntime {
+  public readonly log: DispatchRecord[] = [];
+  public readonly simulations: Map<string, InlineSimulation> = new Map();
+  private workerCount = 0;
+
+  constructor(
+    public readonly handlers: TaskHandlers,
+    public readonly options: DefineWorkerOptions
+  ) {}
+
+  public createWorker(): Worker {
+    return new InlineWorker(++this.workerCount, this) as unknown as Worker;
+  }
+
+  /**
+   * Returns the simulation applying to a task type, if any.
+   */
+  public simulationFor(taskType: string): InlineSimulation | undefined {
+    return this.simulations.get(taskType) ?? this.simulations.get(ANY_TASK);
+  }
+
+  /**
+   * Decides whether a dispatch crashes, counting down limited crash simulations.
+   */
+  public takeCrash(simulation: InlineSimulation | undefined): boolean {
+    if (!simulation?.crash) return false;
+    if (simulation.crash === true) return true;
+    simulation.crash--;
+    return true;
+  }
+}
+
+/**
+ * InlineWorker Class
+ *
+ * Stands in for a Web Worker: messages in both directions go through
+ * structuredClone (with transfer lists, so transferred buffers are detached)
+ * and are delivered asynchronously, and the handlers are served by the same
+ * code as in a real worker (defineWorker()).
+ */
+class InlineWorker {
+  public onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null = null;
+  public onerror: ((event: ErrorEvent) => void) | null = null;
+
+  // Listener installed by serveWorker() for messages from the pool.
+  private listener: ((message: WorkerMessage) => void) | null = null;
+
+  // Dispatches of the tasks this worker hasn't answered yet, keyed by task ID.
+  private running: Map<string, DispatchRecord> = new Map();
+
+  // Tasks cancelled while their simulated delay was still pending.
+  private cancelled: Set<string> = new Set();
+
+  // Pending simulated delays.
+  private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+
+  private terminated = false;
+
+  constructor(
+    private readonly id: number,
+    private readonly runtime: InlineRuntime
+  ) {
+    serveWorker(
+      {
+        postMessage: (message, transferables) => this.reply(message, transferables),
+        onMessage: (listener) => {
+          this.listener = listener;
+        }
+      },
+      runtime.handlers,
+      runtime.options
+    );
+  }
+
+  /**
+   * Sends a message from the pool to the worker.
+   *
+   * @throws DataCloneError if the message can't be cloned (like a real worker).
+   */
+  public postMessage(message: WorkerMessage, transferables?: Transferable[]): void {
+    if (this.terminated) return;
+
+    const clone: WorkerMessage = structuredClone(message, transferables && { transfer: transferables });
+
+    if (clone.type === 'task') {
+      const record: DispatchRecord = {
+        id: clone.id,
+        taskType: clone.taskType ?? '',
+        payload: clone.payload,
+        workerId: this.id,
+        time: Date.now(),
+        outcome: 'pending'
+      };
+      this.runtime.log.push(record);
+      this.running.set(clone.id, record);
+      queueMicrotask(() => this.startTask(clone));
+      return;
+    }
+
+    if (clone.type === 'cancel' && this.running.has(clone.id)) {
+      this.cancelled.add(clone.id);
+    }
+    queueMicrotask(() => this.deliver(clone));
+  }
+
+  /**
+   * Stops the worker. Handlers still running are aborted through their
+   * signal; anything they send afterwards is dropped.
+   */
+  public terminate(): void {
+    if (this.terminated) return;
+
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+
+    for (const [id, record] of this.running) {
+      record.outcome = 'terminated';
+      this.listener?.({ id, type: 'cancel', payload: null });
+    }
+    this.running.clear();
+    this.terminated = true;
+  }
+
+  /**
+   * Applies the simulation of the task's type, then hands it to the handlers.
+   */
+  private async startTask(message: WorkerMessage): Promise<void> {
+    const simulation = this.runtime.simulationFor(message.taskType ?? '');
+
+    if (simulation?.delayMs) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => {
+          this.timers.delete(timer);
+          resolve();
+        }, simulation.delayMs);
+        this.timers.add(timer);
+      });
+    }
+    if (this.terminated) return;
+
+    for (const value of simulation?.progress ?? []) {
+      this.reply({ id: message.id, type: 'progress', payload: value });
+    }
+
+    if (this.runtime.takeCrash(simulation)) {
+      this.crash(message);
+      return;
+    }
+
+    this.deliver(message);
+
+    // A cancel that arrived during the delay reaches the handler now.
+    if (this.cancelled.delete(message.id)) {
+      this.deliver({ id: message.id, type: 'cancel', payload: null });
+    }
+  }
+
+  /**
+   * Reports a simulated crash of the worker to the pool.
+   */
+  private crash(message: WorkerMessage): void {
+    const record = this.running.get(message.id);
+    if (record) record.outcome = 'crash';
+    this.running.delete(message.id);
+
+    const error = new Error(`Simulated crash of inline worker ${this.id} (task "${message.taskType}")`);
+    queueMicrotask(() => {
+      if (this.terminated) return;
+      this.onerror?.({ message: error.message, error } as ErrorEvent);
+    });
+  }
+
+  private deliver(message: WorkerMessage): void {
+    if (!this.terminated) this.listener?.(message);
+  }
+
+  /**
+   * Sends a response from the handlers to the pool.
+   */
+  private reply(response: WorkerResponse, transferables?: Transferable[]): void {
+    if (this.terminated) return;
+
+    const clone: WorkerResponse = structuredClone(response, transferables && { transfer: transferables });
+
+    if (clone.type === 'result' || clone.type === 'error') {
+      const record = this.running.get(clone.id);
+      if (record) {
+        record.outcome = clone.type;
+        this.running.delete(clone.id);
+        this.cancelled.delete(clone.id);
+      }
+    }
+
+    queueMicrotask(() => {
+      if (this.terminated) return;
+      this.onmessage?.({ data: clone } as MessageEvent<WorkerResponse>);
+    });
+  }
+}
+
+/**
+ * InlinePool Class
+ *
+ * A WorkerPool whose workers run the handlers on the main thread. Scheduling,
+ * retries, timeouts, cancellation and streaming behave as with real workers,
+ * and messages are still structured-cloned, so payloads that can't be sent to
+ * a worker fail here too.
+ *
+ * Meant for tests: every dispatch is logged (`dispatched`), and crashes,
+ * delays and progress can be simulated per task type with simulate().
+ *
+ * @template M - Optional task map (task type -> handler signature).
+ */
+export class InlinePool<M = TaskHandlers> extends WorkerPool<M> {
+  private readonly runtime: InlineRuntime;
+
+  /**
+   * @param handlers - Map of task type -> handler function, as passed to defineWorker().
+   * @param config - Pool options.
+   */
+  constructor(handlers: TaskHandlers, config: InlinePoolConfig = {}) {
+    const { onInit, ...poolConfig } = config;
+    const runtime = new InlineRuntime(handlers, onInit ? { onInit } : {});
+    super({ ...poolConfig, worker: () => runtime.createWorker() });
+    this.runtime = runtime;
+  }
+
+  /**
+   * Tasks dispatched to the inline workers so far, in dispatch order.
+   * Retries appear once per attempt, and map() batches once per batch.
+   */
+  public get dispatched(): readonly DispatchRecord[] {
+    return this.runtime.log;
+  }
+
+  /**
+   * Simulates behavior for later dispatches of a task type, replacing any
+   * previous simulation for it. Use '*' for all task types without their own.
+   *
+   * @example
+   * pool.simulate('resize', { crash: 1 });        // the next attempt crashes its worker
+   * pool.simulate('*', { delayMs: 50 });          // every task starts 50ms late
+   */
+  public simulate(taskType: TaskName<M> | typeof ANY_TASK, simulation: InlineSimulation): void {
+    this.runtime.simulations.set(taskType, { ...simulation });
+  }
+
+  /**
+   * Removes all simulations.
+   */
+  public clearSimulations(): void {
+    this.runtime.simulations.clear();
+  }
+
+  /**
+   * Empties the dispatch log.
+   */
+  public clearLog(): void {
+    this.runtime.log.length = 0;
+  }
+}
+
+/**
+ * Creates an in-process pool running the given handlers on the main thread,
+ * for unit-testing code that uses thready.
+ *
+ * @param handlers - Map of task type -> handler function.
+ * @param config - Pool options (e.g. `maxWorkers`, `retry`).
+ *
+ * @example
+ * const pool = createInlinePool({ square: (n: number) => n * n });
+ * expect(await pool.run('square', 3)).toBe(9);
+ * expect(pool.dispatched).toHaveLength(1);
+ */
+export function createInlinePool<H extends TaskHandlers>(handlers: H, config: InlinePoolConfig = {}): InlinePool<H> {
+  return new InlinePool<H>(handlers, config);
+}
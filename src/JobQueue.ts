@@ -0,0 +1,457 @@
+// ============================================================================
+// DURABLE JOB QUEUE (main thread)
+// Journals jobs run on a WorkerPool so that they survive process restarts.
+// ============================================================================
+
+import type {
+  JobRecord,
+  JobStatus,
+  JobStore,
+  JobOptions,
+  JobQueueOptions,
+  RunOptions,
+  UntypedTaskMap,
+  TaskName,
+  TaskPayload
+} from './types.js';
+import { PoolShutdownError, serializeError, deserializeTaskError } from './errors.js';
+import { FileJobStore } from './FileJobStore.js';
+import type { WorkerPool } from './WorkerPool.js';
+
+// Upper limit of the delay between attempts.
+const MAX_BACKOFF_MS = 60000;
+
+// Finished jobs are pruned at most this often.
+const PRUNE_INTERVAL_MS = 60000;
+
+/**
+ * JobQueue Class
+ *
+ * Runs tasks on a WorkerPool as durable jobs: every job is saved to a JobStore
+ * before add() returns, and every state change is journaled. A new queue on
+ * the same store replays the jobs that were queued or running when the
+ * process stopped, so each job runs at least once (and may run again if the
+ * process stopped while it was running). Jobs that fail `maxAttempts` times
+ * move to a dead-letter list.
+ *
+ * Results are kept for `retainMs`, so callers can reattach to a job by ID
+ * with result(), even after a restart.
+ *
+ * @template M - Optional task map (task type -> handler signature).
+ */
+export class JobQueue<M = UntypedTaskMap> {
+  /**
+   * Resolves once the store has been loaded and interrupted jobs have been
+   * resubmitted. Rejects if the store can't be loaded.
+   */
+  public readonly ready: Promise<void>;
+
+  private readonly store: JobStore;
+  private readonly maxAttempts: number;
+  private readonly backoffMs: number;
+  private readonly retainMs: number;
+  private readonly onError: ((error: Error, job: JobRecord) => void) | undefined;
+
+  // Known jobs by ID, and job IDs by idempotency key.
+  private jobs: Map<string, JobRecord> = new Map();
+  private keys: Map<string, string> = new Map();
+
+  // Callers of result() waiting for a job to finish.
+  private waiters: Map<string, Array<{ resolve: (value: any) => void; reject: (error: Error) => void }>> = new Map();
+
+  // Jobs waiting out their backoff before the next attempt.
+  private retryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  // Store writes are chained so that the journal keeps their order.
+  private writes: Promise<void> = Promise.resolve();
+
+  private lastPrune = 0;
+  private closed = false;
+
+  // Set once the pool rejected a job because it is shutting down: no job can run anymore.
+  private poolStopped = false;
+
+  /**
+   * @param pool - The pool running the jobs.
+   * @param options - The store and the retry and retention settings.
+   */
+  constructor(
+    private readonly pool: WorkerPool<M>,
+    options: JobQueueOptions
+  ) {
+    this.store = typeof options.store === 'string' ? new FileJobStore(options.store) : options.store;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.backoffMs = options.backoffMs ?? 1000;
+    this.retainMs = options.retainMs ?? 24 * 60 * 60 * 1000;
+    this.onError = options.onError;
+
+    if (!Number.isInteger(this.maxAttempts) || this.maxAttempts < 1) {
+      throw new Error(`Invalid maxAttempts: ${this.maxAttempts}`);
+    }
+
+    this.ready = this.replay();
+    // Callers see the error through `ready` or the methods awaiting it.
+    this.ready.catch(() => undefined);
+  }
+
+  /**
+   * Adds a job and resolves with its ID once the job has been saved.
+   * With an idempotency key the queue already knows, resolves with that job's ID instead.
+   *
+   * @param taskType - The task to run.
+   * @param payload - The task's payload (must survive the store's serialization).
+   * @param options - Idempotency key, job ID and scheduling options.
+   *
+   * @example
+   * const id = await jobs.add('transcode', { file }, { idempotencyKey: file });
+   */
+  public async add<K extends TaskName<M>>(
+    taskType: K,
+    payload: TaskPayload<M, K>,
+    options: JobOptions = {}
+  ): Promise<string> {
+    await this.ready;
+    if (this.closed) throw new Error('The job queue is closed');
+
+    const { idempotencyKey, id = `job_${Date.now()}_${Math.random().toString(36).slice(2)}` } = options;
+    if (idempotencyKey !== undefined) {
+      const existing = this.keys.get(idempotencyKey);
+      if (existing !== undefined) return existing;
+    }
+    if (this.jobs.has(id)) {
+      throw new Error(`A job with ID "${id}" already exists`);
+    }
+
+    const now = Date.now();
+    const job: JobRecord = {
+      id,
+      taskType,
+      payload,
+      status: 'queued',
+      attempts: 0,
+      ...(idempotencyKey !== undefined && { idempotencyKey }),
+      ...(options.priority !== undefined && { priority: options.priority }),
+      ...(options.lane !== undefined && { lane: options.lane }),
+      ...(options.timeoutMs !== undefined && { timeoutMs: options.timeoutMs }),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    // Registered before saving, so that a concurrent add() with the same key finds it.
+    this.remember(job);
+    try {
+      await this.persist(job);
+    } catch (error) {
+      this.forget(job);
+      throw error;
+    }
+
+    this.dispatch(job);
+    return id;
+  }
+
+  /**
+   * Waits for a job's result - also for jobs added before a restart.
+   *
+   * @param id - The job's ID.
+   * @throws The job's last error if it is in the dead-letter list, or an Error for
+   *         unknown jobs and for unfinished jobs once the pool has shut down.
+   */
+  public async result<T = any>(id: string): Promise<T> {
+    await this.ready;
+
+    const job = this.jobs.get(id);
+    if (!job) throw new Error(`Unknown job: ${id}`);
+    if (job.status === 'done') return job.result;
+    if (job.status === 'dead') throw this.jobError(job);
+    if (this.poolStopped) {
+      throw new Error(`Job ${id} can't finish: the pool has shut down (a new queue on the store replays it)`);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      let waiters = this.waiters.get(id);
+      if (!waiters) {
+        waiters = [];
+        this.waiters.set(id, waiters);
+      }
+      waiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Returns the current state of a job (once `ready` has resolved).
+   *
+   * @param id - The job's ID.
+   */
+  public get(id: string): JobRecord | undefined {
+    const job = this.jobs.get(id);
+    return job && { ...job };
+  }
+
+  /**
+   * Returns the known jobs, optionally only those in one state (once `ready` has resolved).
+   *
+   * @param status - The state to filter by.
+   */
+  public list(status?: JobStatus): JobRecord[] {
+    return [...this.jobs.values()]
+      .filter(job => status === undefined || job.status === status)
+      .map(job => ({ ...job }));
+  }
+
+  /**
+   * Returns the dead-letter list: jobs that failed `maxAttempts` times.
+   */
+  public deadLetters(): JobRecord[] {
+    return this.list('dead');
+  }
+
+  /**
+   * Moves a job from the dead-letter list back to the queue, with a fresh set of attempts.
+   *
+   * @param id - The job's ID.
+   */
+  public async retry(id: string): Promise<void> {
+    await this.ready;
+
+    const job = this.jobs.get(id);
+    if (!job) throw new Error(`Unknown job: ${id}`);
+    if (job.status !== 'dead') throw new Error(`Job ${id} is not in the dead-letter list`);
+
+    job.status = 'queued';
+    job.attempts = 0;
+    delete job.error;
+    job.updatedAt = Date.now();
+    await this.persist(job);
+    this.dispatch(job);
+  }
+
+  /**
+   * Deletes a finished or dead job from the store. Its idempotency key can be used again afterwards.
+   *
+   * @param id - The job's ID.
+   */
+  public async remove(id: string): Promise<void> {
+    await this.ready;
+
+    const job = this.jobs.get(id);
+    if (!job) return;
+    if (job.status !== 'done' && job.status !== 'dead') {
+      throw new Error(`Job ${id} is still ${job.status}`);
+    }
+
+    this.forget(job);
+    await this.write(() => this.store.delete(id));
+  }
+
+  /**
+   * Stops starting jobs and closes the store once pending writes are done.
+   * Jobs still running on the pool are not awaited; they stay journaled as
+   * running and are replayed by the next queue on this store.
+   */
+  public async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+
+    await this.ready.catch(() => undefined);
+    await this.writes;
+    await this.store.close?.();
+  }
+
+  /**
+   * Loads the store, drops expired results and resubmits interrupted jobs.
+   */
+  private async replay(): Promise<void> {
+    const jobs = await this.store.load();
+    const now = Date.now();
+
+    for (const job of jobs) {
+      if (job.status === 'done' && now - job.updatedAt > this.retainMs) {
+        this.write(() => this.store.delete(job.id)).catch((error: Error) => this.reportStoreError(error, job));
+      } else {
+        this.remember(job);
+      }
+    }
+    this.lastPrune = now;
+
+    for (const job of this.jobs.values()) {
+      if (job.status === 'running' && job.attempts >= this.maxAttempts) {
+        // The process stopped during the job's last attempt.
+        this.fail(job, new Error(`The process stopped while the job was running (attempt ${job.attempts})`));
+      } else if (job.status === 'queued' || job.status === 'running') {
+        this.dispatch(job);
+      }
+    }
+  }
+
+  /**
+   * Starts the next attempt of a job. The attempt is journaled before it runs,
+   * so attempts interrupted by a restart count too. If it can't be journaled,
+   * the job stays queued and is dispatched again after the backoff.
+   */
+  private dispatch(job: JobRecord): void {
+    if (this.closed || this.poolStopped) return;
+
+    job.status = 'running';
+    job.attempts++;
+    job.updatedAt = Date.now();
+
+    const options: RunOptions = {
+      ...(job.priority !== undefined && { priority: job.priority }),
+      ...(job.lane !== undefined && { lane: job.lane }),
+      ...(job.timeoutMs !== undefined && { timeoutMs: job.timeoutMs })
+    };
+    const pool = this.pool as unknown as WorkerPool;
+
+    this.persist(job).then(
+      () => {
+        pool.run(job.taskType, job.payload, options).then(
+          (result) => this.complete(job, result),
+          (error: Error) => this.handleFailure(job, error)
+        );
+      },
+      (error: Error) => {
+        // Running now would replay the job with a stale attempt count after a crash.
+        job.status = 'queued';
+        job.attempts--;
+        job.updatedAt = Date.now();
+        this.reportStoreError(error, job);
+        if (!this.closed && this.jobs.get(job.id) === job) this.retryLater(job);
+      }
+    );
+  }
+
+  private complete(job: JobRecord, result: any): void {
+    // After close(), the job stays journaled as running.
+    if (this.closed || this.jobs.get(job.id) !== job) return;
+
+    job.status = 'done';
+    job.result = result;
+    delete job.error;
+    job.updatedAt = Date.now();
+    this.persist(job).catch((error: Error) => this.reportStoreError(error, job));
+
+    this.waiters.get(job.id)?.forEach(waiter => waiter.resolve(result));
+    this.waiters.delete(job.id);
+    this.prune();
+  }
+
+  /**
+   * Schedules the next attempt of a failed job, or moves it to the dead-letter list.
+   */
+  private handleFailure(job: JobRecord, error: Error): void {
+    if (this.closed || this.jobs.get(job.id) !== job) return;
+
+    // The pool is going away: the job stays journaled as running, to be replayed
+    // after the restart. Nothing runs it before that.
+    if (error instanceof PoolShutdownError) {
+      this.poolStopped = true;
+      job.status = 'queued';
+      job.updatedAt = Date.now();
+      this.waiters.get(job.id)?.forEach(waiter => waiter.reject(error));
+      this.waiters.delete(job.id);
+      return;
+    }
+
+    if (job.attempts >= this.maxAttempts) {
+      this.fail(job, error);
+      return;
+    }
+
+    job.status = 'queued';
+    job.error = serializeError(error);
+    job.updatedAt = Date.now();
+    this.persist(job).catch((storeError: Error) => this.reportStoreError(storeError, job));
+    this.retryLater(job);
+  }
+
+  /**
+   * Dispatches a queued job again once its backoff has passed.
+   */
+  private retryLater(job: JobRecord): void {
+    const delay = Math.min(this.backoffMs * Math.pow(2, Math.max(job.attempts - 1, 0)), MAX_BACKOFF_MS);
+    this.retryTimers.set(job.id, setTimeout(() => {
+      this.retryTimers.delete(job.id);
+      this.dispatch(job);
+    }, delay));
+  }
+
+  /**
+   * Moves a job to the dead-letter list and rejects the callers waiting for it.
+   */
+  private fail(job: JobRecord, error: Error): void {
+    job.status = 'dead';
+    job.error = serializeError(error);
+    job.updatedAt = Date.now();
+    this.persist(job).catch((storeError: Error) => this.reportStoreError(storeError, job));
+
+    const jobError = this.jobError(job);
+    this.waiters.get(job.id)?.forEach(waiter => waiter.reject(jobError));
+    this.waiters.delete(job.id);
+  }
+
+  /**
+   * Rebuilds the last error of a job.
+   */
+  private jobError(job: JobRecord): Error {
+    return deserializeTaskError(job.error ?? { name: 'Error', message: `Job ${job.id} failed` }, job.id, job.taskType);
+  }
+
+  /**
+   * Deletes finished jobs whose results have been kept for `retainMs`.
+   */
+  private prune(): void {
+    const now = Date.now();
+    if (now - this.lastPrune < PRUNE_INTERVAL_MS) return;
+    this.lastPrune = now;
+
+    for (const job of this.jobs.values()) {
+      if (job.status === 'done' && now - job.updatedAt > this.retainMs) {
+        this.forget(job);
+        this.write(() => this.store.delete(job.id)).catch((error: Error) => this.reportStoreError(error, job));
+      }
+    }
+  }
+
+  /**
+   * Passes a failed store write to the `onError` hook (write() has logged it already).
+   */
+  private reportStoreError(error: Error, job: JobRecord): void {
+    this.onError?.(error, { ...job });
+  }
+
+  private remember(job: JobRecord): void {
+    this.jobs.set(job.id, job);
+    if (job.idempotencyKey !== undefined) this.keys.set(job.idempotencyKey, job.id);
+  }
+
+  private forget(job: JobRecord): void {
+    this.jobs.delete(job.id);
+    if (job.idempotencyKey !== undefined && this.keys.get(job.idempotencyKey) === job.id) {
+      this.keys.delete(job.idempotencyKey);
+    }
+  }
+
+  /**
+   * Saves a snapshot of a job's current state.
+   */
+  private persist(job: JobRecord): Promise<void> {
+    const snapshot = { ...job };
+    return this.write(() => this.store.save(snapshot));
+  }
+
+  /**
+   * Queues a store operation behind the earlier ones. Failures are logged and
+   * returned to the caller, without stopping later writes.
+   */
+  private write(operation: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(operation);
+    this.writes = result.catch((error) => {
+      console.error('Job store error:', error);
+    });
+    return result;
+  }
+}
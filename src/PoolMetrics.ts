@@ -0,0 +1,324 @@
+// ============================================================================
+// POOL METRICS (main thread)
+// Latency histograms, rolling percentiles, throughput and worker utilization,
+// with JSON and Prometheus text exports.
+// ============================================================================
+
+import type {
+  LatencyMetrics,
+  TaskTypeMetrics,
+  WorkerMetrics,
+  WorkerExitReason,
+  PoolMetricsSnapshot
+} from './types.js';
+
+// Upper bounds (ms) of the latency histogram buckets.
+const LATENCY_BUCKETS_MS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+
+// Samples kept per series for the rolling window (the oldest are dropped first).
+const MAX_WINDOW_SAMPLES = 10000;
+
+const EXIT_REASONS: WorkerExitReason[] = ['crash', 'cancel', 'init', 'recycle', 'idle', 'resize', 'shutdown'];
+
+// Exit reasons that count as restarts: the worker was lost, not retired on purpose.
+const RESTART_REASONS: WorkerExitReason[] = ['crash', 'cancel', 'init'];
+
+/**
+ * A latency measurement taken at a point in time (performance.now()).
+ */
+interface Sample {
+  at: number;
+  value: number;
+}
+
+/**
+ * Latency series: a histogram since the start, and the recent samples.
+ */
+class LatencySeries {
+  public count = 0;
+  public sum = 0;
+  // Count per bucket (not cumulative), +Inf last.
+  public bucketCounts: number[] = new Array(LATENCY_BUCKETS_MS.length + 1).fill(0);
+  public samples: Sample[] = [];
+
+  public record(value: number, at: number): void {
+    this.count++;
+    this.sum += value;
+
+    let bucket = LATENCY_BUCKETS_MS.findIndex(bound => value <= bound);
+    if (bucket === -1) bucket = LATENCY_BUCKETS_MS.length;
+    this.bucketCounts[bucket]!++;
+
+    this.samples.push({ at, value });
+    if (this.samples.length > MAX_WINDOW_SAMPLES) this.samples.shift();
+  }
+
+  /**
+   * Drops the samples that fell out of the window.
+   */
+  public prune(since: number): void {
+    let stale = 0;
+    while (stale < this.samples.length && this.samples[stale]!.at < since) stale++;
+    if (stale > 0) this.samples.splice(0, stale);
+  }
+
+  public summarize(): LatencyMetrics {
+    const values = this.samples.map(sample => sample.value).sort((a, b) => a - b);
+
+    // Nearest-rank percentile of the sorted window.
+    const percentile = (p: number): number | null =>
+      values.length > 0 ? values[Math.min(values.length - 1, Math.ceil((p / 100) * values.length) - 1)]! : null;
+
+    let cumulative = 0;
+    return {
+      count: this.count,
+      sumMs: this.sum,
+      buckets: this.bucketCounts.map(count => (cumulative += count)),
+      mean: values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null,
+      max: values.length > 0 ? values[values.length - 1]! : null,
+      p50: percentile(50),
+      p90: percentile(90),
+      p95: percentile(95),
+      p99: percentile(99)
+    };
+  }
+}
+
+/**
+ * Counters and latencies of one task type.
+ */
+interface TaskTypeSeries {
+  completed: number;
+  failed: number;
+  // When tasks completed, for the throughput over the window.
+  completions: number[];
+  wait: LatencySeries;
+  duration: LatencySeries;
+}
+
+/**
+ * Busy-time bookkeeping of a live worker.
+ */
+interface WorkerSeries {
+  spawnedAt: number;
+  tasks: number;
+  busyMs: number;
+  // Start of the current task, if busy.
+  busySince: number | null;
+}
+
+/**
+ * PoolMetrics Class
+ *
+ * Collects the metrics of one WorkerPool from its lifecycle events. Totals and
+ * histograms cover the whole life of the pool; percentiles and throughput a
+ * rolling window.
+ */
+export class PoolMetrics {
+  private readonly startedAt = performance.now();
+  private taskTypes: Map<string, TaskTypeSeries> = new Map();
+  private workers: Map<number, WorkerSeries> = new Map();
+  private workersSpawned = 0;
+  private workerExits = Object.fromEntries(EXIT_REASONS.map(reason => [reason, 0])) as Record<WorkerExitReason, number>;
+
+  /**
+   * @param windowMs - Length of the rolling window in ms.
+   */
+  constructor(private readonly windowMs: number) {}
+
+  /**
+   * Records an attempt starting on a worker after waiting in the queue.
+   */
+  public taskStarted(taskType: string, workerId: number, waitMs: number): void {
+    const now = performance.now();
+    this.series(taskType).wait.record(waitMs, now);
+
+    const worker = this.workers.get(workerId);
+    if (worker) {
+      worker.tasks++;
+      worker.busySince ??= now;
+    }
+  }
+
+  /**
+   * Records a worker becoming idle after finishing (or abandoning) its task.
+   */
+  public workerIdle(workerId: number): void {
+    const worker = this.workers.get(workerId);
+    if (worker && worker.busySince !== null) {
+      worker.busyMs += performance.now() - worker.busySince;
+      worker.busySince = null;
+    }
+  }
+
+  /**
+   * Records a task settling. durationMs is undefined for tasks that never ran.
+   */
+  public taskSettled(taskType: string, ok: boolean, durationMs: number | undefined): void {
+    const now = performance.now();
+    const series = this.series(taskType);
+
+    if (ok) {
+      series.completed++;
+      series.completions.push(now);
+      if (series.completions.length > MAX_WINDOW_SAMPLES) series.completions.shift();
+    } else {
+      series.failed++;
+    }
+    if (durationMs !== undefined) series.duration.record(durationMs, now);
+  }
+
+  public workerSpawned(workerId: number): void {
+    this.workersSpawned++;
+    this.workers.set(workerId, { spawnedAt: performance.now(), tasks: 0, busyMs: 0, busySince: null });
+  }
+
+  public workerExited(workerId: number, reason: WorkerExitReason): void {
+    this.workers.delete(workerId);
+    this.workerExits[reason]++;
+  }
+
+  /**
+   * Takes a snapshot of all metrics.
+   *
+   * @param queuedTasks - Tasks currently waiting for a worker.
+   * @param activeTasks - Tasks currently running.
+   */
+  public snapshot(queuedTasks: number, activeTasks: number): PoolMetricsSnapshot {
+    const now = performance.now();
+    const windowStart = now - this.windowMs;
+    // A young pool measures throughput over its lifetime, not the full window.
+    const windowSeconds = Math.max(Math.min(this.windowMs, now - this.startedAt), 1) / 1000;
+
+    let totalRecent = 0;
+    const taskTypes: Record<string, TaskTypeMetrics> = {};
+    this.taskTypes.forEach((series, taskType) => {
+      series.wait.prune(windowStart);
+      series.duration.prune(windowStart);
+      while (series.completions.length > 0 && series.completions[0]! < windowStart) series.completions.shift();
+      totalRecent += series.completions.length;
+
+      taskTypes[taskType] = {
+        completed: series.completed,
+        failed: series.failed,
+        throughput: series.completions.length / windowSeconds,
+        wait: series.wait.summarize(),
+        duration: series.duration.summarize()
+      };
+    });
+
+    const workers: WorkerMetrics[] = [];
+    this.workers.forEach((worker, workerId) => {
+      const uptimeMs = now - worker.spawnedAt;
+      const busyMs = worker.busyMs + (worker.busySince !== null ? now - worker.busySince : 0);
+      workers.push({
+        workerId,
+        busy: worker.busySince !== null,
+        tasks: worker.tasks,
+        uptimeMs,
+        utilization: uptimeMs > 0 ? Math.min(1, busyMs / uptimeMs) : 0
+      });
+    });
+
+    return {
+      timestamp: Date.now(),
+      windowMs: this.windowMs,
+      latencyBucketsMs: [...LATENCY_BUCKETS_MS],
+      throughput: totalRecent / windowSeconds,
+      taskTypes,
+      workers,
+      workersSpawned: this.workersSpawned,
+      workerExits: { ...this.workerExits },
+      restarts: RESTART_REASONS.reduce((sum, reason) => sum + this.workerExits[reason], 0),
+      queuedTasks,
+      activeTasks
+    };
+  }
+
+  private series(taskType: string): TaskTypeSeries {
+    let series = this.taskTypes.get(taskType);
+    if (!series) {
+      series = { completed: 0, failed: 0, completions: [], wait: new LatencySeries(), duration: new LatencySeries() };
+      this.taskTypes.set(taskType, series);
+    }
+    return series;
+  }
+}
+
+/**
+ * Escapes a Prometheus label value.
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Renders metric snapshots in the Prometheus text exposition format (0.0.4).
+ * Every sample carries the given labels (e.g. the pool name when several pools
+ * are exported together). Latencies are exported in seconds.
+ *
+ * @param sources - Snapshots with the labels identifying them.
+ */
+export function formatPrometheus(sources: Array<{ labels: Record<string, string>; snapshot: PoolMetricsSnapshot }>): string {
+  const lines: string[] = [];
+
+  const family = (
+    name: string,
+    type: 'counter' | 'gauge' | 'histogram',
+    help: string,
+    collect: (emit: (labels: Record<string, string>, value: number, suffix?: string) => void, source: PoolMetricsSnapshot) => void
+  ): void => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const { labels, snapshot } of sources) {
+      collect((extra, value, suffix = '') => {
+        lines.push(`${name}${suffix}${formatLabels({ ...labels, ...extra })} ${value}`);
+      }, snapshot);
+    }
+  };
+
+  const histogram = (name: string, help: string, pick: (metrics: TaskTypeMetrics) => LatencyMetrics): void => {
+    family(name, 'histogram', help, (emit, snapshot) => {
+      for (const [taskType, metrics] of Object.entries(snapshot.taskTypes)) {
+        const latency = pick(metrics);
+        latency.buckets.forEach((count, index) => {
+          const bound = snapshot.latencyBucketsMs[index];
+          emit({ task_type: taskType, le: bound === undefined ? '+Inf' : String(bound / 1000) }, count, '_bucket');
+        });
+        emit({ task_type: taskType }, latency.sumMs / 1000, '_sum');
+        emit({ task_type: taskType }, latency.count, '_count');
+      }
+    });
+  };
+
+  family('thready_tasks_completed_total', 'counter', 'Tasks completed successfully.', (emit, snapshot) => {
+    for (const [taskType, metrics] of Object.entries(snapshot.taskTypes)) emit({ task_type: taskType }, metrics.completed);
+  });
+  family('thready_tasks_failed_total', 'counter', 'Tasks that failed, were cancelled or timed out.', (emit, snapshot) => {
+    for (const [taskType, metrics] of Object.entries(snapshot.taskTypes)) emit({ task_type: taskType }, metrics.failed);
+  });
+  family('thready_task_throughput', 'gauge', 'Tasks completed per second over the rolling window.', (emit, snapshot) => {
+    for (const [taskType, metrics] of Object.entries(snapshot.taskTypes)) emit({ task_type: taskType }, metrics.throughput);
+  });
+  histogram('thready_task_wait_seconds', 'Time tasks waited in the queue before starting.', metrics => metrics.wait);
+  histogram('thready_task_duration_seconds', 'Time tasks ran on a worker.', metrics => metrics.duration);
+  family('thready_queued_tasks', 'gauge', 'Tasks waiting for a worker.', (emit, snapshot) => emit({}, snapshot.queuedTasks));
+  family('thready_active_tasks', 'gauge', 'Tasks running on a worker.', (emit, snapshot) => emit({}, snapshot.activeTasks));
+  family('thready_workers', 'gauge', 'Live workers.', (emit, snapshot) => emit({}, snapshot.workers.length));
+  family('thready_worker_utilization', 'gauge', 'Fraction of its uptime a worker spent running tasks.', (emit, snapshot) => {
+    for (const worker of snapshot.workers) emit({ worker: String(worker.workerId) }, worker.utilization);
+  });
+  family('thready_workers_spawned_total', 'counter', 'Workers created.', (emit, snapshot) => emit({}, snapshot.workersSpawned));
+  family('thready_worker_exits_total', 'counter', 'Workers that left the pool, by reason.', (emit, snapshot) => {
+    for (const [reason, count] of Object.entries(snapshot.workerExits)) emit({ reason }, count);
+  });
+  family('thready_worker_restarts_total', 'counter', 'Workers lost to crashes, cancellations or failed initialization.', (emit, snapshot) => {
+    emit({}, snapshot.restarts);
+  });
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,333 @@
+// ============================================================================
+// TASK QUEUE (main thread)
+// Priority scheduling with named lanes and weighted fair sharing.
+// ============================================================================
+
+import type { Task, TaskPriority, LaneConfig } from './types.js';
+
+// Numeric rank of each priority level - higher runs sooner.
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  high: 1,
+  normal: 0,
+  low: -1
+};
+
+// Lane used when a task doesn't name one.
+export const DEFAULT_LANE = 'default';
+
+// Empty lanes that aren't configured are kept while they are behind on fair
+// sharing (so that a lane can't skip its turn by emptying), up to this many.
+const MAX_IDLE_LANES = 1000;
+
+/**
+ * An entry in a lane's heap. Keeps its own position so it can be removed in O(log n).
+ */
+interface QueueEntry {
+  task: Task;
+  lane: Lane;
+  priority: TaskPriority;
+  // Precomputed ordering key - higher keys are dequeued first.
+  key: number;
+  // Insertion sequence number, used to keep FIFO order among equal keys.
+  seq: number;
+  // Current index in the lane's heap array.
+  index: number;
+}
+
+/**
+ * A named lane: a binary max-heap of entries plus its fair-sharing state.
+ */
+interface Lane {
+  name: string;
+  weight: number;
+  heap: QueueEntry[];
+  // Virtual time consumed by this lane (stride scheduling). The non-empty lane
+  // with the smallest pass is served next; each dequeue advances it by 1 / weight.
+  pass: number;
+  // Listed in the `lanes` option. Other lanes are dropped once empty (see retireLane()).
+  configured: boolean;
+}
+
+export interface TaskQueueOptions {
+  lanes?: Record<string, LaneConfig> | undefined;
+  priorityAgingMs?: number | undefined;
+}
+
+/**
+ * TaskQueue Class
+ *
+ * Replaces the plain FIFO array used by the WorkerPool.
+ * - Each task has a priority ('high' | 'normal' | 'low'). Within a lane, higher
+ *   priorities are served first and equal priorities keep FIFO order.
+ * - Waiting tasks age: every `priorityAgingMs` spent in the queue counts as one
+ *   priority level, so low-priority work still makes progress under load.
+ * - Tasks can be assigned to named lanes. Lanes share workers in proportion to
+ *   their weight, so a burst in one lane can't starve another.
+ *
+ * push, shift and remove are O(log n) in the number of queued tasks
+ * (plus O(lanes) to pick a lane, counting only lanes with queued tasks).
+ */
+export class TaskQueue {
+  // All lanes, keyed by name. Unknown lanes are created on demand with weight 1.
+  private lanes: Map<string, Lane> = new Map();
+
+  // Lanes with queued tasks, and empty unconfigured lanes kept for their pass
+  // (least recently emptied first).
+  private activeLanes: Set<Lane> = new Set();
+  private idleLanes: Set<Lane> = new Set();
+
+  // Lookup from task to its heap entry, for O(log n) removal (e.g. on abort).
+  private entries: Map<Task, QueueEntry> = new Map();
+
+  // Number of queued tasks per priority level, for getStats().
+  private priorityCounts: Record<TaskPriority, number> = { high: 0, normal: 0, low: 0 };
+
+  // Milliseconds of waiting that are worth one priority level (0 = strict priorities).
+  private priorityAgingMs: number;
+
+  // Monotonic insertion counter for FIFO tie-breaking.
+  private seq = 0;
+
+  // Pass of the most recently served lane; newly active lanes start from here.
+  private virtualTime = 0;
+
+  constructor(options: TaskQueueOptions = {}) {
+    this.priorityAgingMs = options.priorityAgingMs ?? 0;
+
+    // Pre-create configured lanes so they appear in stats even when empty.
+    this.getLane(DEFAULT_LANE).configured = true;
+    for (const [name, config] of Object.entries(options.lanes ?? {})) {
+      const lane = this.getLane(name);
+      lane.configured = true;
+      if (config.weight !== undefined) {
+        if (!(config.weight > 0)) {
+          throw new Error(`Lane "${name}" must have a positive weight`);
+        }
+        lane.weight = config.weight;
+      }
+    }
+  }
+
+  /**
+   * Number of queued tasks across all lanes.
+   */
+  public get length(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Adds a task to its lane.
+   */
+  public push(task: Task): void {
+    const lane = this.getLane(task.lane ?? DEFAULT_LANE);
+    const priority = task.priority ?? 'normal';
+
+    // A lane that was idle must not bank credit from the time it was empty.
+    if (lane.heap.length === 0) {
+      lane.pass = Math.max(lane.pass, this.virtualTime);
+      this.activeLanes.add(lane);
+      this.idleLanes.delete(lane);
+    }
+
+    // With aging, a task's effective priority grows linearly with its wait time.
+    // Since every task ages at the same rate, ordering by
+    // (rank * agingMs - enqueueTime) is stable and fits a plain heap.
+    const rank = PRIORITY_RANK[priority];
+    const key = this.priorityAgingMs > 0
+      ? rank * this.priorityAgingMs - performance.now()
+      : rank;
+
+    const entry: QueueEntry = { task, lane, priority, key, seq: this.seq++, index: lane.heap.length };
+    lane.heap.push(entry);
+    this.siftUp(lane.heap, entry.index);
+
+    this.entries.set(task, entry);
+    this.priorityCounts[priority]++;
+  }
+
+  /**
+   * Removes and returns the next task to run, or undefined if the queue is empty.
+   */
+  public shift(): Task | undefined {
+    // Pick the non-empty lane that has consumed the least virtual time.
+    let next: Lane | undefined;
+    for (const lane of this.activeLanes) {
+      if (!next || lane.pass < next.pass) next = lane;
+    }
+    if (!next) return undefined;
+
+    this.virtualTime = next.pass;
+    next.pass += 1 / next.weight;
+
+    const entry = next.heap[0]!;
+    this.removeEntry(entry);
+    return entry.task;
+  }
+
+  /**
+   * Removes a specific task from the queue.
+   *
+   * @returns true if the task was queued and has been removed.
+   */
+  public remove(task: Task): boolean {
+    const entry = this.entries.get(task);
+    if (!entry) return false;
+
+    this.removeEntry(entry);
+    return true;
+  }
+
+  /**
+   * Removes every task and returns them (in no particular order).
+   */
+  public clear(): Task[] {
+    const tasks = Array.from(this.entries.keys());
+
+    for (const lane of this.lanes.values()) {
+      lane.heap = [];
+    }
+    this.entries.clear();
+    this.priorityCounts = { high: 0, normal: 0, low: 0 };
+    this.resetLanes();
+
+    return tasks;
+  }
+
+  /**
+   * Queue depth broken down by priority and by lane.
+   */
+  public getStats(): { byPriority: Record<TaskPriority, number>; byLane: Record<string, number> } {
+    const byLane: Record<string, number> = {};
+    for (const lane of this.lanes.values()) {
+      byLane[lane.name] = lane.heap.length;
+    }
+
+    return {
+      byPriority: { ...this.priorityCounts },
+      byLane
+    };
+  }
+
+  /**
+   * Returns the lane with the given name, creating it (weight 1) if needed.
+   */
+  private getLane(name: string): Lane {
+    let lane = this.lanes.get(name);
+    if (!lane) {
+      lane = { name, weight: 1, heap: [], pass: this.virtualTime, configured: false };
+      this.lanes.set(name, lane);
+    }
+    return lane;
+  }
+
+  /**
+   * Handles a lane that just became empty. An unconfigured lane is dropped once
+   * it has no turns to make up for, since it would restart from the virtual time
+   * anyway; until then it is kept, within MAX_IDLE_LANES.
+   */
+  private retireLane(lane: Lane): void {
+    this.activeLanes.delete(lane);
+    if (lane.configured) return;
+
+    if (lane.pass <= this.virtualTime) {
+      this.lanes.delete(lane.name);
+      return;
+    }
+
+    this.idleLanes.add(lane);
+    if (this.idleLanes.size > MAX_IDLE_LANES) {
+      const oldest = this.idleLanes.values().next().value!;
+      this.idleLanes.delete(oldest);
+      this.lanes.delete(oldest.name);
+    }
+  }
+
+  /**
+   * Starts fair sharing afresh once nothing is queued: no lane is behind
+   * anymore, and only the configured lanes are kept.
+   */
+  private resetLanes(): void {
+    for (const lane of this.lanes.values()) {
+      if (lane.configured) {
+        lane.pass = 0;
+      } else {
+        this.lanes.delete(lane.name);
+      }
+    }
+    this.activeLanes.clear();
+    this.idleLanes.clear();
+    this.virtualTime = 0;
+  }
+
+  /**
+   * Removes an entry from its lane's heap and from the bookkeeping.
+   */
+  private removeEntry(entry: QueueEntry): void {
+    const heap = entry.lane.heap;
+    const last = heap.pop()!;
+
+    // Move the last entry into the hole and restore the heap property.
+    if (last !== entry) {
+      heap[entry.index] = last;
+      last.index = entry.index;
+      this.siftDown(heap, last.index);
+      this.siftUp(heap, last.index);
+    }
+
+    this.entries.delete(entry.task);
+    this.priorityCounts[entry.priority]--;
+
+    if (this.entries.size === 0) {
+      this.resetLanes();
+    } else if (heap.length === 0) {
+      this.retireLane(entry.lane);
+    }
+  }
+
+  /**
+   * Whether entry a should be dequeued before entry b.
+   */
+  private before(a: QueueEntry, b: QueueEntry): boolean {
+    return a.key !== b.key ? a.key > b.key : a.seq < b.seq;
+  }
+
+  private siftUp(heap: QueueEntry[], index: number): void {
+    const entry = heap[index]!;
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      const parent = heap[parentIndex]!;
+      if (!this.before(entry, parent)) break;
+
+      heap[index] = parent;
+      parent.index = index;
+      index = parentIndex;
+    }
+    heap[index] = entry;
+    entry.index = index;
+  }
+
+  private siftDown(heap: QueueEntry[], index: number): void {
+    const entry = heap[index]!;
+    const length = heap.length;
+    while (true) {
+      const leftIndex = 2 * index + 1;
+      if (leftIndex >= length) break;
+
+      // Pick the child that should come first.
+      const rightIndex = leftIndex + 1;
+      let childIndex = leftIndex;
+      if (rightIndex < length && this.before(heap[rightIndex]!, heap[leftIndex]!)) {
+        childIndex = rightIndex;
+      }
+
+      const child = heap[childIndex]!;
+      if (!this.before(child, entry)) break;
+
+      heap[index] = child;
+      child.index = index;
+      index = childIndex;
+    }
+    heap[index] = entry;
+    entry.index = index;
+  }
+}
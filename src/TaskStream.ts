@@ -0,0 +1,133 @@
+// ============================================================================
+// TASK STREAM (main thread)
+// Async iterator over the chunks of a streaming task, with credit-based
+// flow control towards the worker.
+// ============================================================================
+
+/**
+ * A consumer waiting in next() for the next chunk.
+ */
+interface PendingRead<T> {
+  resolve: (result: IteratorResult<T, undefined>) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * TaskStream Class
+ *
+ * Returned by WorkerPool.stream(). Buffers the chunks sent by the worker until
+ * they are read with `for await`. The worker may only run `highWaterMark`
+ * chunks ahead of the consumer: consumed chunks are acknowledged in batches by
+ * granting the worker new credit.
+ *
+ * Leaving the loop early (break, return or throw) calls return(), which
+ * cancels the task in the worker.
+ *
+ * @template T - Type of the chunks.
+ */
+export class TaskStream<T> implements AsyncIterableIterator<T> {
+  // Chunks received but not read yet (at most highWaterMark).
+  private buffer: T[] = [];
+
+  // Reads waiting for a chunk to arrive.
+  private pending: PendingRead<T>[] = [];
+
+  // Set once the stream ended, failed or was closed by the consumer.
+  private done = false;
+  private error: Error | null = null;
+
+  // Chunks read since credit was last granted to the worker.
+  private unacknowledged = 0;
+
+  /**
+   * @param highWaterMark - Number of chunks the worker may send ahead of the consumer.
+   * @param grantCredit - Allows the worker to send this many more chunks.
+   * @param cancel - Cancels the task in the worker.
+   */
+  constructor(
+    private readonly highWaterMark: number,
+    private readonly grantCredit: (credit: number) => void,
+    private readonly cancel: () => void
+  ) {}
+
+  /**
+   * Delivers a chunk received from the worker. Called by the pool.
+   */
+  public push(chunk: T): void {
+    if (this.done) return;
+
+    const read = this.pending.shift();
+    if (read) {
+      this.acknowledge();
+      read.resolve({ value: chunk, done: false });
+    } else {
+      this.buffer.push(chunk);
+    }
+  }
+
+  /**
+   * Marks the end of the stream once the worker sent its final result. Called by the pool.
+   */
+  public end(): void {
+    if (this.done) return;
+    this.done = true;
+    this.pending.splice(0).forEach(read => read.resolve({ value: undefined, done: true }));
+  }
+
+  /**
+   * Fails the stream; reads past the buffered chunks reject with the error. Called by the pool.
+   */
+  public fail(error: Error): void {
+    if (this.done) return;
+    this.done = true;
+    this.error = error;
+    this.pending.splice(0).forEach(read => read.reject(error));
+  }
+
+  /**
+   * Reads the next chunk, waiting for the worker if none is buffered.
+   */
+  public next(): Promise<IteratorResult<T, undefined>> {
+    if (this.buffer.length > 0) {
+      const chunk = this.buffer.shift()!;
+      this.acknowledge();
+      return Promise.resolve({ value: chunk, done: false });
+    }
+
+    if (this.error) return Promise.reject(this.error);
+    if (this.done) return Promise.resolve({ value: undefined, done: true });
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Stops reading: drops buffered chunks and cancels the task if it's still running.
+   * Called automatically when a `for await` loop exits early.
+   */
+  public return(): Promise<IteratorResult<T, undefined>> {
+    this.buffer = [];
+    if (!this.done) {
+      this.end();
+      this.cancel();
+    }
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  public [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  /**
+   * Counts a chunk as read and grants the worker new credit once half the
+   * window has been consumed (batched to keep the message count low).
+   */
+  private acknowledge(): void {
+    this.unacknowledged++;
+    if (this.unacknowledged >= Math.max(1, Math.floor(this.highWaterMark / 2))) {
+      this.grantCredit(this.unacknowledged);
+      this.unacknowledged = 0;
+    }
+  }
+}
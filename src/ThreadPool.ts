@@ -1,6 +1,33 @@
-import type { WorkerPoolConfig } from './types.js';
+import type {
+  WorkerPoolConfig,
+  MultiPoolConfig,
+  RunOptions,
+  ShutdownOptions,
+  MapOptions,
+  StreamOptions,
+  ParallelForOptions,
+  GraphNode,
+  GraphOptions,
+  GraphResult,
+  TypedArray,
+  UntypedTaskMap,
+  TaskName,
+  TaskArgs,
+  TaskPayload,
+  TaskResult,
+  TaskStreamItem,
+  TaskProxy,
+  PoolEventName,
+  PoolEventListener,
+  PoolMetricsSnapshot
+} from './types.js';
 import { WorkerPool } from './WorkerPool.js';
+import type { TaskStream } from './TaskStream.js';
+import { createTaskProxy } from './taskProxy.js';
+import { formatPrometheus } from './PoolMetrics.js';
 
+// Name of the pool created by init() with a single pool configuration.
+const DEFAULT_POOL = 'default';
 
 /**
  * ThreadPool Class
@@ -17,79 +44,396 @@ import { WorkerPool } from './WorkerPool.js';
  * 2. Initialize once at app startup: `threadPool.init({ worker: './your-worker.js' })`
  * 3. Execute tasks anywhere: `await threadPool.execute(...)`
  * 4. Cleanup on app shutdown: `threadPool.shutdown()`
+ *
+ * For compile-time checked task names, payloads and results, use a typed view:
+ * `export default threadPool.withTasks<typeof tasks>()`.
+ *
+ * Several named pools (e.g. separate worker scripts for image and parsing work)
+ * can be held at once: `init({ pools: { image: {...}, parse: {...} } })` or
+ * `createPool(name, config)`. Calls are routed with the `pool` option and go
+ * to the default pool otherwise.
+ *
+ * @template M - Optional task map (task type -> handler signature).
  */
-class ThreadPool {
-  // Internal reference to the actual WorkerPool instance.
-  // It is null until init() is called.
-  private pool: WorkerPool | null = null;
+export class ThreadPool<M = UntypedTaskMap> {
+  // The WorkerPool instances, keyed by name. Empty until init() or createPool() is called.
+  private pools: Map<string, WorkerPool> = new Map();
+
+  // Name of the pool used when a call doesn't specify one.
+  private defaultPool: string | null = null;
 
   // Flag to track initialization status and prevent double-init.
   private initialized = false;
 
+  // Cached proxy behind the `tasks` getter.
+  private taskProxy: TaskProxy<M> | null = null;
+
   /**
    * Initializes the thread pool with your worker implementation.
    * This must be called before executing any tasks.
    * 
-   * @param config - Configuration with your worker implementation (path or factory function).
+   * @param config - Configuration with your worker implementation (path or factory function),
+   *                 or `{ pools: { name: config, ... } }` for several named pools.
    */
-  public init(config: WorkerPoolConfig): void {
+  public init(config: WorkerPoolConfig | MultiPoolConfig): void {
     // Prevent multiple initializations, which could leak resources.
+    // Use createPool() to add pools later.
     if (this.initialized) {
       console.warn('ThreadPool already initialized');
       return;
     }
 
-    // Create the WorkerPool instance.
-    this.pool = new WorkerPool(config);
+    if (!('pools' in config)) {
+      // Create the WorkerPool instance.
+      this.createPool(DEFAULT_POOL, config);
+      return;
+    }
+
+    const names = Object.keys(config.pools);
+    if (names.length === 0) {
+      throw new Error('ThreadPool init() needs at least one pool');
+    }
+
+    const defaultPool = config.defaultPool ?? (names.includes(DEFAULT_POOL) ? DEFAULT_POOL : names[0]!);
+    if (!names.includes(defaultPool)) {
+      throw new Error(`Default pool "${defaultPool}" is not configured`);
+    }
+
+    for (const name of names) {
+      this.createPool(name, config.pools[name]!);
+    }
+    this.defaultPool = defaultPool;
+  }
+
+  /**
+   * Creates an additional named pool. The first pool created becomes the default pool.
+   *
+   * @param name - Name used to route calls to this pool (the `pool` option).
+   * @param config - Configuration of the pool, or an existing pool to register
+   *                 (e.g. a createInlinePool() pool in tests).
+   * @returns The created WorkerPool.
+   * @throws Error if a pool with this name already exists.
+   */
+  public createPool(name: string, config: WorkerPoolConfig | WorkerPool<any>): WorkerPool<M> {
+    if (this.pools.has(name)) {
+      throw new Error(`Pool "${name}" already exists`);
+    }
+
+    const pool: WorkerPool = config instanceof WorkerPool ? config : new WorkerPool(config);
+    this.pools.set(name, pool);
+    this.defaultPool ??= name;
     this.initialized = true;
+    return pool as unknown as WorkerPool<M>;
+  }
+
+  /**
+   * Returns a pool by name (the default pool if no name is given), for APIs
+   * not mirrored on the singleton, e.g. `threadPool.getPool('image').resize(8)`.
+   *
+   * @throws Error if the pool hasn't been initialized or doesn't exist.
+   */
+  public getPool(name?: string): WorkerPool<M> {
+    return this.resolvePool(name) as unknown as WorkerPool<M>;
+  }
+
+  /**
+   * Names of the pools currently held.
+   */
+  public getPoolNames(): string[] {
+    return Array.from(this.pools.keys());
+  }
+
+  /**
+   * Looks up the pool a call is routed to.
+   */
+  private resolvePool(name: string | undefined): WorkerPool {
+    // Safety check ensuring init() was called.
+    if (this.pools.size === 0) {
+      throw new Error('ThreadPool not initialized. Call init() first.');
+    }
+
+    const poolName = name ?? this.defaultPool;
+    const pool = poolName !== null ? this.pools.get(poolName) : undefined;
+    if (!pool) {
+      throw new Error(name !== undefined ? `Pool "${name}" not found` : 'No default pool. Pass the `pool` option.');
+    }
+    return pool;
   }
 
   /**
    * Executes a task on the thread pool.
    * This is a proxy method that forwards the request to the underlying WorkerPool.
    * 
-   * @template T - The expected return type of the task.
    * @param taskType - Identify the operation to run in the worker.
    * @param payload - Data to be processed.
-   * @param transferables - Optional array of buffers to transfer ownership.
+   * @param options - Optional array of buffers to transfer ownership, or a RunOptions object.
    * @returns Promise resolving to the result.
    * @throws Error if the pool hasn't been initialized.
    */
-  public async execute<T = any>(
+  public execute<K extends TaskName<M>>(
+    taskType: K,
+    ...args: TaskArgs<M, K>
+  ): Promise<TaskResult<M, K>>;
+
+  /**
+   * Untyped form, kept for pools without a task map: `execute<ResultType>('task', payload)`.
+   * 
+   * @template T - The expected return type of the task.
+   */
+  public execute<T = any>(
+    taskType: string extends TaskName<M> ? string : never,
+    payload: any,
+    options?: Transferable[] | RunOptions
+  ): Promise<T>;
+
+  public async execute(
     taskType: string,
     payload: any,
-    transferables?: Transferable[]
-  ): Promise<T> {
-    // Safety check ensuring init() was called.
-    if (!this.pool) {
-      throw new Error('ThreadPool not initialized. Call init() first.');
+    options?: Transferable[] | RunOptions
+  ): Promise<any> {
+    // Delegate execution to the WorkerPool instance named by the `pool` option.
+    const pool = this.resolvePool(Array.isArray(options) ? undefined : options?.pool);
+    return pool.run(taskType, payload, options);
+  }
+
+  /**
+   * Runs a task once per item in parallel chunks and returns the results in input order.
+   * See WorkerPool.map().
+   *
+   * @throws Error if the pool hasn't been initialized.
+   */
+  public map<K extends TaskName<M>>(
+    items: ArrayLike<TaskPayload<M, K>>,
+    taskType: K,
+    options?: MapOptions & { errors?: 'fail-fast' }
+  ): Promise<TaskResult<M, K>[]>;
+
+  public map<K extends TaskName<M>>(
+    items: ArrayLike<TaskPayload<M, K>>,
+    taskType: K,
+    options: MapOptions & { errors: 'settle' }
+  ): Promise<PromiseSettledResult<TaskResult<M, K>>[]>;
+
+  public async map(items: ArrayLike<any>, taskType: string, options?: MapOptions): Promise<any[]> {
+    return this.resolvePool(options?.pool).map(items, taskType, options as MapOptions & { errors?: 'fail-fast' });
+  }
+
+  /**
+   * Map-reduce over a large input: chunks are reduced inside workers and the
+   * partial results combined in input order. See WorkerPool.reduce().
+   *
+   * @throws Error if the pool hasn't been initialized.
+   */
+  public async reduce<K extends TaskName<M>, A>(
+    items: TaskPayload<M, K> & ArrayLike<any>,
+    taskType: K,
+    combine: (accumulator: A, partial: TaskResult<M, K>, chunkIndex: number) => A,
+    initial: A,
+    options?: MapOptions
+  ): Promise<A> {
+    return this.resolvePool(options?.pool).reduce(items, taskType, combine, initial, options);
+  }
+
+  /**
+   * Data-parallel loop over a typed array in shared memory. See WorkerPool.parallelFor().
+   *
+   * @throws Error if the pool hasn't been initialized.
+   */
+  public async parallelFor<A extends TypedArray>(
+    array: A,
+    taskType: TaskName<M>,
+    options?: ParallelForOptions
+  ): Promise<A> {
+    return this.resolvePool(options?.pool).parallelFor(array, taskType, options);
+  }
+
+  /**
+   * Runs a graph of dependent tasks. See WorkerPool.graph().
+   *
+   * @throws Error if the pool hasn't been initialized.
+   */
+  public async graph(nodes: Record<string, GraphNode<M>>, options?: GraphOptions): Promise<GraphResult> {
+    const pool = this.resolvePool(options?.pool) as unknown as WorkerPool<M>;
+    return pool.graph(nodes, options);
+  }
+
+  /**
+   * Runs tasks one after another on one worker. See WorkerPool.pipeline().
+   *
+   * @throws Error if the pool hasn't been initialized.
+   */
+  public async pipeline(taskTypes: TaskName<M>[], input: any, options?: Omit<GraphOptions, 'outputs'>): Promise<any> {
+    return this.resolvePool(options?.pool).pipeline(taskTypes, input, options);
+  }
+
+  /**
+   * Runs a self-contained function on a generic worker of the default pool,
+   * without a worker script. See WorkerPool.runFunction().
+   *
+   * @throws Error if the pool hasn't been initialized.
+   */
+  public async runFunction<A extends any[], R>(fn: (...args: A) => R, ...args: A): Promise<Awaited<R>> {
+    return this.resolvePool(undefined).runFunction(fn, ...args);
+  }
+
+  /**
+   * Runs a streaming task and returns its chunks as an async iterable.
+   * See WorkerPool.stream().
+   *
+   * @throws Error if the pool hasn't been initialized.
+   */
+  public stream<K extends TaskName<M>>(
+    taskType: K,
+    payload: TaskPayload<M, K>,
+    options?: StreamOptions
+  ): TaskStream<TaskStreamItem<M, K>>;
+
+  public stream<T = any>(
+    taskType: string extends TaskName<M> ? string : never,
+    payload: any,
+    options?: StreamOptions
+  ): TaskStream<T>;
+
+  public stream(taskType: string, payload: any, options?: StreamOptions): TaskStream<any> {
+    return this.resolvePool(options?.pool).stream(taskType, payload, options);
+  }
+
+  /**
+   * Proxy-style access to the tasks: `threadPool.tasks.fibonacci(30)` is
+   * equivalent to `threadPool.execute('fibonacci', 30)`.
+   */
+  public get tasks(): TaskProxy<M> {
+    if (!this.taskProxy) {
+      this.taskProxy = createTaskProxy<M>((taskType, payload, options) =>
+        (this.execute as ThreadPool['execute'])(taskType, payload, options)
+      );
+    }
+
+    return this.taskProxy;
+  }
+
+  /**
+   * Returns this same singleton, typed with a task map so that `execute()` and
+   * `tasks` check task names, payloads and results at compile time.
+   * This is a type-only cast; no new pool is created.
+   *
+   * @template T - Task map, e.g. `typeof tasks` where `tasks = defineWorker({...})`.
+   */
+  public withTasks<T>(): ThreadPool<T> {
+    return this as unknown as ThreadPool<T>;
+  }
+
+  /**
+   * Retrieves statistics from the underlying pools: the default pool's
+   * statistics, plus those of every pool under `pools` (keyed by name).
+   * With a name, returns only that pool's statistics.
+   * Returns null if pool is not initialized (or the named pool doesn't exist).
+   *
+   * @param name - Optional pool name.
+   */
+  public getStats(name?: string) {
+    if (name !== undefined) {
+      return this.pools.get(name)?.getStats() || null;
     }
 
-    // Delegate execution to the WorkerPool instance.
-    return this.pool.run<T>(taskType, payload, transferables);
+    if (this.pools.size === 0) return null;
+
+    const pools: Record<string, ReturnType<WorkerPool['getStats']>> = {};
+    this.pools.forEach((pool, poolName) => {
+      pools[poolName] = pool.getStats();
+    });
+
+    const defaultPool = this.defaultPool !== null ? this.pools.get(this.defaultPool) : undefined;
+    return { ...defaultPool?.getStats(), pools };
+  }
+
+  /**
+   * Subscribes to a lifecycle event of a pool (the default pool unless `pool` is given).
+   * See WorkerPool.on().
+   *
+   * @returns A function removing the listener.
+   */
+  public on<E extends PoolEventName>(event: E, listener: PoolEventListener<E>, options: { pool?: string } = {}): () => void {
+    return this.resolvePool(options.pool).on(event, listener);
+  }
+
+  /**
+   * Returns the detailed metrics of a pool (the default pool without a name).
+   * See WorkerPool.getMetrics().
+   */
+  public getMetrics(name?: string): PoolMetricsSnapshot {
+    return this.resolvePool(name).getMetrics();
   }
 
   /**
-   * Retrieves statistics from the underlying pool.
-   * Returns null if pool is not initialized.
+   * Exports the metrics of all pools, as JSON keyed by pool name or in the
+   * Prometheus text exposition format with a `pool` label.
+   *
+   * @param format - 'json' (default) or 'prometheus'.
    */
-  public getStats() {
-    return this.pool?.getStats() || null;
+  public exportMetrics(format: 'json' | 'prometheus' = 'json'): string {
+    const snapshots = Array.from(this.pools, ([name, pool]) => ({ labels: { pool: name }, snapshot: pool.getMetrics() }));
+
+    if (format === 'prometheus') return formatPrometheus(snapshots);
+    return JSON.stringify(Object.fromEntries(snapshots.map(({ labels, snapshot }) => [labels.pool, snapshot])));
   }
 
   /**
    * Shuts down the thread pool and releases all resources.
    * Should be called when the application is closing or unmounting.
+   *
+   * Without options, workers are terminated immediately and pending tasks are
+   * rejected with a PoolShutdownError. Pass options for a graceful shutdown that
+   * lets running (and with `drain`, queued) tasks finish first.
+   * The singleton can be initialized again right away.
+   *
+   * @param options - Optional drain mode and deadline.
+   * @returns A Promise that resolves once the workers are terminated.
    */
-  public shutdown(): void {
-    if (this.pool) {
-      // Terminate all workers.
-      this.pool.terminate();
+  public shutdown(options?: ShutdownOptions): Promise<void>;
 
-      // Clear references to allow garbage collection.
-      this.pool = null;
-      this.initialized = false;
+  /**
+   * Shuts down a single named pool; the others keep running. If it was the
+   * default pool, calls without a `pool` option fail until a new default is created.
+   *
+   * @param name - Name of the pool to shut down.
+   * @param options - Optional drain mode and deadline.
+   */
+  public shutdown(name: string, options?: ShutdownOptions): Promise<void>;
+
+  public shutdown(nameOrOptions?: string | ShutdownOptions, options?: ShutdownOptions): Promise<void> {
+    if (typeof nameOrOptions === 'string') {
+      const pool = this.pools.get(nameOrOptions);
+      if (!pool) return Promise.resolve();
+
+      this.pools.delete(nameOrOptions);
+      if (this.defaultPool === nameOrOptions) this.defaultPool = null;
+      if (this.pools.size === 0) this.initialized = false;
+
+      return this.shutdownPool(pool, options);
     }
+
+    const pools = Array.from(this.pools.values());
+
+    // Clear references to allow garbage collection (and a fresh init()).
+    this.pools.clear();
+    this.defaultPool = null;
+    this.initialized = false;
+
+    return Promise.all(pools.map(pool => this.shutdownPool(pool, nameOrOptions))).then(() => {});
+  }
+
+  /**
+   * Shuts one pool down: immediately without options, gracefully with them.
+   */
+  private shutdownPool(pool: WorkerPool, options: ShutdownOptions | undefined): Promise<void> {
+    if (!options) {
+      // Terminate all workers.
+      pool.terminate();
+      return Promise.resolve();
+    }
+
+    return pool.shutdown(options);
   }
 }
 
@@ -7,7 +7,71 @@
 // WORKER POOL MANAGER (main thread)
 // ============================================================================
 
-import type { WorkerMessage, WorkerResponse, Task, WorkerPoolConfig } from './types.js';
+import type {
+  WorkerMessage,
+  WorkerResponse,
+  Task,
+  WorkerPoolConfig,
+  RunOptions,
+  RetryPolicy,
+  QuarantinedTask,
+  ShutdownOptions,
+  MapOptions,
+  StreamOptions,
+  ParallelForOptions,
+  TypedArray,
+  BatchItemResult,
+  BatchItemOutcome,
+  GraphNode,
+  GraphOptions,
+  GraphResult,
+  GraphSegmentResult,
+  WorkerUsage,
+  WorkerResourceLimits,
+  RecycleStats,
+  UntypedTaskMap,
+  TaskName,
+  TaskArgs,
+  TaskPayload,
+  TaskResult,
+  TaskStreamItem,
+  TaskProxy,
+  WorkerHandle,
+  WorkerEvent,
+  WorkerAdapter,
+  WorkerExitReason,
+  PoolEventMap,
+  PoolEventName,
+  PoolEventListener,
+  PoolMetricsSnapshot
+} from './types.js';
+import {
+  AbortError,
+  TimeoutError,
+  WorkerCrashError,
+  PoisonTaskError,
+  CircuitOpenError,
+  PoolShutdownError,
+  DependencyError,
+  deserializeTaskError
+} from './errors.js';
+import { TaskQueue } from './TaskQueue.js';
+import { createTaskProxy } from './taskProxy.js';
+import {
+  sliceChunk,
+  forEachChunk,
+  partitionRange,
+  isSharedMemoryAvailable,
+  isShared,
+  toSharedArray
+} from './parallel.js';
+import { planGraph, runGraph } from './graph.js';
+import { TaskStream } from './TaskStream.js';
+import { HashRing } from './HashRing.js';
+import { wrapWorker, detectAdapter } from './adapters.js';
+import { PoolMetrics, formatPrometheus } from './PoolMetrics.js';
+import { FUNCTION_TASK, serializeFunction, createFunctionWorkerFactory } from './functionWorker.js';
+import { fingerprintPayload } from './fingerprint.js';
 
 // Import necessary types from the types definition file.
 // WorkerMessage: Structure of messages sent to workers.
@@ -16,6 +80,32 @@ import type { WorkerMessage, WorkerResponse, Task, WorkerPoolConfig } from './ty
 // WorkerPoolConfig: Configuration options for the pool.
 
 
+// Minimum time a worker gets to stop a task cooperatively before it is terminated:
+// streams whose consumer left the loop, and tasks cancelled while their worker
+// runs other tasks (both are always cancelled cooperatively).
+const COOPERATIVE_CANCEL_GRACE_MS = 1000;
+
+/**
+ * Per-worker bookkeeping for recycling.
+ */
+interface WorkerLifecycle {
+  // Number identifying the worker in events and metrics.
+  id: number;
+  // When the worker was created (performance.now()).
+  createdAt: number;
+  // Number of tasks the worker has been given.
+  tasks: number;
+  // Resource usage reported after the worker's latest task.
+  usage?: WorkerUsage | undefined;
+  // Timer retiring the worker when maxWorkerLifetimeMs is reached while it's idle.
+  lifetimeTimer?: ReturnType<typeof setTimeout> | undefined;
+}
+
+/**
+ * Task fields set by the pool's own APIs rather than by RunOptions.
+ */
+type InternalTaskFields = Partial<Pick<Task, 'batch' | 'streamCredit' | 'onChunk' | 'parallel' | 'graph'>>;
+
 // ============================================================================
 // WORKER POOL CORE IMPLEMENTATION
 // ============================================================================
@@ -29,29 +119,141 @@ import type { WorkerMessage, WorkerResponse, Task, WorkerPoolConfig } from './ty
  * 
  * It implements a mechanism to reuse workers efficiently rather than
  * creating a new thread for every task, which would be resource-intensive.
+ *
+ * @template M - Optional task map (task type -> handler signature), e.g. the
+ * `typeof` the object passed to defineWorker(). When given, task names,
+ * payloads and results are checked at compile time.
  */
-export class WorkerPool {
+export class WorkerPool<M = UntypedTaskMap> {
   // Array to hold references to all worker instances created by this pool.
-  private workers: Worker[] = [];
+  private workers: WorkerHandle[] = [];
 
-  // Array to hold references to workers that are currently idle and ready for a task.
-  private availableWorkers: Worker[] = [];
+  // Array to hold references to workers that can take another task: idle workers,
+  // and busy ones with a free slot when concurrencyPerWorker > 1.
+  private availableWorkers: WorkerHandle[] = [];
 
   // Queue to hold tasks that are waiting for a worker to become available.
-  private taskQueue: Task[] = [];
+  // Ordered by lane (weighted fair sharing) and priority.
+  private taskQueue: TaskQueue;
 
   // Map to track currently executing tasks, keyed by their unique Task ID.
   private activeTasks: Map<string, Task> = new Map();
 
-  // Map to link a specific Worker instance to the Task ID it is currently working on.
+  // Map to link a specific Worker instance to the IDs of the tasks it is currently working on.
   // This is essential for error handling and cleanup.
-  private workerTaskMap: Map<Worker, string> = new Map();
+  private workerTaskMap: Map<WorkerHandle, Set<string>> = new Map();
 
   // The maximum number of concurrent workers allowed.
   private maxWorkers: number;
 
+  // The maximum number of tasks a worker runs at the same time.
+  private concurrencyPerWorker: number;
+
+  // The number of workers kept alive even when idle.
+  private minWorkers: number;
+
+  // How long (ms) a worker may stay idle before it is terminated (0 = never).
+  private idleTimeoutMs: number;
+
+  // Timers that reap idle workers, keyed by the idle worker.
+  private idleTimers: Map<WorkerHandle, ReturnType<typeof setTimeout>> = new Map();
+
   // User-provided worker implementation (path or factory function).
-  private workerFactory: string | (() => Worker);
+  private workerFactory: string | URL | (() => Worker) | undefined;
+
+  // Creates workers from a script path or URL (detected on first use unless configured).
+  private adapter: WorkerAdapter | undefined;
+
+  // How long a worker gets to acknowledge a 'cancel' message before it is terminated.
+  private cancelGracePeriodMs: number;
+
+  // Cached proxy behind the `tasks` getter.
+  private taskProxy: TaskProxy<M> | null = null;
+
+  // Cancelled tasks that their workers are still finishing cooperatively, mapped to
+  // the timer that force-terminates the worker when the grace period ends (if any).
+  private cancellingTasks: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  // Default retry policy applied to tasks that don't specify their own.
+  private retryPolicy: RetryPolicy | undefined;
+
+  // Tasks waiting out their retry backoff (neither queued nor active).
+  private retryingTasks: Set<Task> = new Set();
+
+  // Workers that have responded at least once, i.e. started successfully.
+  private startedWorkers: WeakSet<WorkerHandle> = new WeakSet();
+
+  // Circuit breaker state: consecutive startup failures and whether respawning is suspended.
+  private maxStartupFailures: number;
+  private circuitResetMs: number;
+  private startupFailures = 0;
+  private lastStartupError = '';
+  private circuitOpen = false;
+  private circuitTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Shutdown state: once set, no new tasks are accepted.
+  private shuttingDown = false;
+  private shutdownPromise: Promise<void> | null = null;
+
+  // Number of submitted tasks that haven't settled yet (queued, retrying or running),
+  // and callbacks waiting for it to drop to zero.
+  private pendingTasks = 0;
+  private drainWaiters: Array<() => void> = [];
+
+  // Poison-task detection: tasks that crashed too many workers are kept here.
+  private poisonTaskThreshold: number;
+  private quarantine: QuarantinedTask[] = [];
+
+  // Workers crashed in a row per task type and payload fingerprint (Task.poisonKey),
+  // least recently crashed first.
+  private crashStreaks: Map<string, Map<string, number>> = new Map();
+
+  // Whether runFunction() is enabled.
+  private allowFunctions: boolean;
+
+  // Pool of generic workers behind runFunction(), created on first use,
+  // and the cleanup of its worker factory (e.g. revoking the Blob URL).
+  private functionPool: WorkerPool | null = null;
+  private functionPoolReady: Promise<WorkerPool> | null = null;
+  private disposeFunctionWorkers: (() => void) | null = null;
+
+  // The configuration, kept to derive the function pool's settings.
+  private config: WorkerPoolConfig;
+
+  // Init handshake: whether it is enabled, the data sent, and the workers that
+  // haven't answered yet, mapped to their timeout timers.
+  private initHandshake: boolean;
+  private initData: any;
+  private initTimeoutMs: number;
+  private initializingWorkers: Map<WorkerHandle, ReturnType<typeof setTimeout>> = new Map();
+
+  // Callers of warmUp() waiting for the workers being initialized.
+  private warmUpWaiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+
+  // Recycling limits (0 = unlimited), Node.js resource limits, per-worker
+  // bookkeeping and the number of workers retired per reason.
+  private maxTasksPerWorker: number;
+  private maxWorkerLifetimeMs: number;
+  private maxWorkerHeapBytes: number;
+  private resourceLimits: WorkerResourceLimits | undefined;
+  private lifecycles: Map<WorkerHandle, WorkerLifecycle> = new Map();
+  private recycled: RecycleStats = { tasks: 0, lifetime: 0, memory: 0 };
+
+  // Sticky routing: every worker holds a stable slot number that places it on
+  // the hash ring. A new worker takes the lowest free slot, so a replacement
+  // inherits the keys of the worker it replaces.
+  private affinityPolicy: 'fallback' | 'queue';
+  private affinityRing: HashRing<WorkerHandle> = new HashRing();
+  private workerSlots: Map<WorkerHandle, number> = new Map();
+
+  // Tasks waiting for their preferred (busy) worker under the 'queue' policy.
+  private affinityBacklog: Map<WorkerHandle, Task[]> = new Map();
+
+  // Lifecycle event listeners, the metrics collected from the same events,
+  // and the ID given to the next worker.
+  private listeners: Map<PoolEventName, Set<(event: any) => void>> = new Map();
+  private metrics: PoolMetrics;
+  private nextWorkerId = 1;
 
   /**
    * Constructor for the WorkerPool.
@@ -59,117 +261,470 @@ export class WorkerPool {
    * @param config - Configuration object with user's worker implementation.
    */
   constructor(config: WorkerPoolConfig) {
-    // Determine the maximum number of workers.
-    // Priority: Config value -> Hardware concurrency (CPU cores) -> Default to 4.
-    this.maxWorkers = config.maxWorkers || navigator.hardwareConcurrency || 4;
+    this.config = config;
+
+    // Determine the pool size limits.
+    // Workers are spawned lazily between minWorkers (default 0) and maxWorkers.
+    // maxWorkers priority: Config value -> Hardware concurrency (CPU cores) -> Default to 4.
+    this.minWorkers = config.minWorkers ?? 0;
+    this.maxWorkers = config.maxWorkers ||
+      Math.max((typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 4, this.minWorkers);
+
+    if (this.minWorkers > this.maxWorkers) {
+      throw new Error(`minWorkers (${this.minWorkers}) cannot be greater than maxWorkers (${this.maxWorkers})`);
+    }
+
+    // Idle reaping is opt-in.
+    this.idleTimeoutMs = config.idleTimeoutMs ?? 0;
+
+    // One task at a time per worker unless configured otherwise.
+    this.concurrencyPerWorker = config.concurrencyPerWorker ?? 1;
+    if (!Number.isInteger(this.concurrencyPerWorker) || this.concurrencyPerWorker < 1) {
+      throw new Error(`Invalid concurrencyPerWorker: ${this.concurrencyPerWorker}`);
+    }
 
     // Store the user's worker implementation (path or factory function).
     this.workerFactory = config.worker;
+    this.adapter = config.adapter;
+
+    // Cooperative cancellation is opt-in; by default cancelled workers are terminated immediately.
+    this.cancelGracePeriodMs = config.cancelGracePeriodMs ?? 0;
+
+    // Failure handling: optional default retries, circuit breaker and poison-task detection.
+    this.retryPolicy = config.retry;
+    this.maxStartupFailures = config.maxStartupFailures ?? 5;
+    this.circuitResetMs = config.circuitResetMs ?? 30000;
+    this.poisonTaskThreshold = config.poisonTaskThreshold ?? 3;
 
-    // Initialize the pool by creating the workers.
+    // Inline functions are allowed unless explicitly disabled.
+    this.allowFunctions = config.allowFunctions ?? true;
+
+    // The init handshake is enabled by providing initData.
+    this.initHandshake = config.initData !== undefined;
+    this.initData = config.initData;
+    this.initTimeoutMs = config.initTimeoutMs ?? 30000;
+
+    // Recycling is opt-in.
+    this.maxTasksPerWorker = config.maxTasksPerWorker ?? 0;
+    this.maxWorkerLifetimeMs = config.maxWorkerLifetimeMs ?? 0;
+    this.maxWorkerHeapBytes = (config.maxWorkerHeapMb ?? 0) * 1024 * 1024;
+    this.resourceLimits = config.resourceLimits;
+
+    // Tasks with an affinity key run elsewhere rather than wait, unless configured otherwise.
+    this.affinityPolicy = config.affinityPolicy ?? 'fallback';
+
+    // Percentiles and throughput cover the last minute by default.
+    this.metrics = new PoolMetrics(config.metricsWindowMs ?? 60000);
+
+    // Create the scheduling queue. Aging defaults to one priority level per 10 seconds of waiting.
+    this.taskQueue = new TaskQueue({
+      lanes: config.lanes,
+      priorityAgingMs: config.priorityAgingMs ?? 10000
+    });
+
+    // Initialize the pool by creating the minimum number of workers.
     this.initialize();
   }
 
   /**
-   * Initializes the pool by creating the specified number of workers.
+   * Initializes the pool by creating the minimum number of workers.
+   * Further workers are created on demand when tasks are queued.
    */
   private initialize(): void {
-    // Loop from 0 to maxWorkers to create the initial pool.
-    for (let i = 0; i < this.maxWorkers; i++) {
+    this.ensureMinWorkers();
+  }
+
+  /**
+   * Creates workers until the pool holds at least minWorkers.
+   */
+  private ensureMinWorkers(): void {
+    // Don't respawn while the circuit breaker is open or the pool is shutting down.
+    while (this.workers.length < this.minWorkers && !this.circuitOpen && !this.shuttingDown) {
       this.createWorker();
     }
   }
 
   /**
- * Creates a new Worker instance and sets up its event listeners.
- * Supports both browser Web Workers and Node.js worker_threads.
- * 
- * @returns The created Worker instance.
- */
-  private createWorker(): Worker {
-    let worker: Worker;
+   * Creates a new worker and sets up its event listeners.
+   * Factories return a ready Worker; script paths are created by the runtime adapter.
+   *
+   * @returns The created worker.
+   */
+  private createWorker(): WorkerHandle {
+    if (this.workerFactory === undefined) {
+      throw new Error('No worker configured. Pass `worker` in the pool config (only runFunction() works without one).');
+    }
 
-    // Check if the user provided a factory function.
+    let worker: WorkerHandle;
     if (typeof this.workerFactory === 'function') {
-      // If it's a function, call it to get the Worker instance.
-      // This is useful for environments like Vite or Webpack with specific worker loaders.
-      worker = this.workerFactory();
+      // Useful for environments like Vite or Webpack with specific worker loaders.
+      worker = wrapWorker(this.workerFactory());
     } else {
-      // If it's a string, treat it as a file path and instantiate a Worker.
-      // Detect if we're in Node.js environment
-      const isNode = typeof window === 'undefined' &&
-        typeof (globalThis as any).process !== 'undefined' &&
-        (globalThis as any).process?.versions?.node;
-
-      if (isNode) {
-        // Node.js environment - use worker_threads
-        try {
-          // Use a dynamic require that works in both ESM and CJS
-          const workerThreads = (globalThis as any).__workerThreads ||
-            (typeof require !== 'undefined' ? require('worker_threads') : null);
+      this.adapter ??= detectAdapter();
+      worker = this.adapter.create(this.workerFactory, this.resourceLimits ? { resourceLimits: this.resourceLimits } : {});
+    }
 
-          if (!workerThreads) {
-            throw new Error('worker_threads module not found');
-          }
+    worker.listen(event => this.handleWorkerEvent(worker, event));
 
-          const NodeWorker = workerThreads.Worker;
-          worker = new NodeWorker(this.workerFactory) as any;
-        } catch (error) {
-          throw new Error(
-            `Node.js worker_threads not available. Error: ${(error as Error).message}\n` +
-            'For ESM projects, use a factory function:\n' +
-            'threadPool.init({ worker: () => new Worker(...) })'
-          );
+    // Add the new worker to the master list of workers.
+    this.workers.push(worker);
+    this.trackLifecycle(worker);
+    this.addToAffinityRing(worker);
+
+    if (this.initHandshake) {
+      // The worker becomes available once it has answered the 'init' message.
+      this.initializeWorker(worker);
+    } else {
+      // Immediately verify the worker is available for work and add it to the available pool.
+      this.markIdle(worker);
+    }
+
+    return worker;
+  }
+
+  /**
+   * Places a new worker on the affinity hash ring under the lowest free slot.
+   *
+   * @param worker - The new worker.
+   */
+  private addToAffinityRing(worker: WorkerHandle): void {
+    const used = new Set(this.workerSlots.values());
+    let slot = 0;
+    while (used.has(slot)) slot++;
+
+    this.workerSlots.set(worker, slot);
+    this.affinityRing.add(worker, slot);
+  }
+
+  /**
+   * Routes a dequeued task with an affinity key. Called with the worker the
+   * queue would otherwise use; may swap it for the task's preferred worker.
+   *
+   * @param task - The dequeued task.
+   * @param worker - An idle worker taken for it.
+   * @returns The worker to run the task on, or undefined if the task now waits
+   *          for its busy preferred worker (the given worker is idle again).
+   */
+  private routeAffinity(task: Task, worker: WorkerHandle): WorkerHandle | undefined {
+    const preferred = this.affinityRing.get(task.affinityKey!);
+    if (!preferred || preferred === worker) return worker;
+
+    // The preferred worker has a free slot - use it and release the other one.
+    if (this.availableWorkers.includes(preferred)) {
+      this.takeIdleWorker(preferred);
+      this.markIdle(worker);
+      return preferred;
+    }
+
+    if (this.affinityPolicy === 'fallback') return worker;
+
+    // 'queue' policy: wait behind the preferred worker.
+    let backlog = this.affinityBacklog.get(preferred);
+    if (!backlog) {
+      backlog = [];
+      this.affinityBacklog.set(preferred, backlog);
+    }
+    backlog.push(task);
+    this.markIdle(worker);
+    return undefined;
+  }
+
+  /**
+   * Moves the tasks waiting for a worker back to the main queue, where they are
+   * routed again (e.g. to the worker that took over its keys).
+   *
+   * @param worker - The worker that is going away.
+   */
+  private releaseAffinityBacklog(worker: WorkerHandle): void {
+    const backlog = this.affinityBacklog.get(worker);
+    if (!backlog) return;
+
+    this.affinityBacklog.delete(worker);
+    backlog.forEach(task => this.taskQueue.push(task));
+  }
+
+  /**
+   * Starts the recycling bookkeeping of a new worker.
+   *
+   * @param worker - The new worker.
+   */
+  private trackLifecycle(worker: WorkerHandle): void {
+    const lifecycle: WorkerLifecycle = { id: this.nextWorkerId++, createdAt: performance.now(), tasks: 0 };
+    this.metrics.workerSpawned(lifecycle.id);
+    this.emit('workerSpawn', { workerId: lifecycle.id });
+
+    if (this.maxWorkerLifetimeMs > 0) {
+      // Busy workers are retired when their task finishes (see returnWorkerToPool).
+      lifecycle.lifetimeTimer = setTimeout(() => {
+        if (this.isIdle(worker)) {
+          this.recycleWorker(worker, 'lifetime');
+          this.processQueue();
         }
-      } else {
-        // Browser environment - use Web Workers
-        worker = new Worker(this.workerFactory);
-      }
+      }, this.maxWorkerLifetimeMs);
     }
 
-    // Set up event listeners (Handle both Node.js and Web Worker patterns)
-    // Node.js workers use .on(), Web Workers use .onmessage
-    if (typeof (worker as any).on === 'function') {
-      // Node.js Worker (EventEmitter style)
-      (worker as any).on('message', (data: any) => {
-        // Node.js workers send the data directly, not wrapped in an event object
-        this.handleWorkerMessage(worker, data as WorkerResponse);
-      });
+    this.lifecycles.set(worker, lifecycle);
+  }
 
-      (worker as any).on('error', (error: any) => {
-        console.error('Worker error:', error);
-        this.handleWorkerError(worker, error);
-      });
+  /**
+   * Checks whether a worker that just finished a task has reached one of its recycling limits.
+   *
+   * @param worker - The worker.
+   * @returns The limit that was reached, or undefined.
+   */
+  private recycleReason(worker: WorkerHandle): keyof RecycleStats | undefined {
+    const lifecycle = this.lifecycles.get(worker);
+    if (!lifecycle) return undefined;
+
+    if (this.maxTasksPerWorker > 0 && lifecycle.tasks >= this.maxTasksPerWorker) return 'tasks';
+    if (this.maxWorkerLifetimeMs > 0 && performance.now() - lifecycle.createdAt >= this.maxWorkerLifetimeMs) {
+      return 'lifetime';
+    }
+    if (this.maxWorkerHeapBytes > 0 && (lifecycle.usage?.heapUsed ?? 0) > this.maxWorkerHeapBytes) return 'memory';
+    return undefined;
+  }
+
+  /**
+   * Retires an idle worker that reached a recycling limit and starts a
+   * replacement right away, so the pool's capacity doesn't drop.
+   *
+   * @param worker - The worker to retire.
+   * @param reason - The limit that was reached.
+   */
+  private recycleWorker(worker: WorkerHandle, reason: keyof RecycleStats): void {
+    this.recycled[reason]++;
+    this.removeWorker(worker, 'recycle');
+
+    // While shutting down, queued work (drain mode) still spawns workers on demand.
+    if (this.shuttingDown || this.circuitOpen) return;
+
+    try {
+      this.createWorker();
+    } catch (error) {
+      this.recordStartupFailure((error as Error).message);
+    }
+  }
+
+  /**
+   * Sends the 'init' message to a new worker and arms the init timeout.
+   *
+   * @param worker - The new worker.
+   */
+  private initializeWorker(worker: WorkerHandle): void {
+    const message: WorkerMessage = {
+      id: `init_${Date.now()}_${Math.random()}`,
+      type: 'init',
+      payload: this.initData
+    };
+
+    this.initializingWorkers.set(worker, setTimeout(
+      () => this.failWorkerInit(worker, `Worker initialization timed out after ${this.initTimeoutMs}ms`),
+      this.initTimeoutMs
+    ));
+    worker.send(message);
+  }
+
+  /**
+   * Handles a worker's answer to the 'init' message.
+   *
+   * @param worker - The initializing worker.
+   * @param response - Its answer ('ready' or 'error').
+   */
+  private handleInitResponse(worker: WorkerHandle, response: WorkerResponse): void {
+    if (response.type === 'ready') {
+      clearTimeout(this.initializingWorkers.get(worker));
+      this.initializingWorkers.delete(worker);
+
+      // A successful initialization closes the startup-failure streak.
+      this.startedWorkers.add(worker);
+      this.startupFailures = 0;
+
+      // Make the worker available (or retire it, if the pool shrank meanwhile).
+      this.returnWorkerToPool(worker);
+      this.settleWarmUp();
+    } else if (response.type === 'error') {
+      const message = response.error?.message ?? String(response.payload);
+      this.failWorkerInit(worker, `Worker initialization failed: ${message}`);
+    }
+  }
+
+  /**
+   * Discards a worker whose initialization failed or timed out. Counts as a startup failure.
+   *
+   * @param worker - The initializing worker.
+   * @param message - Why the initialization failed.
+   */
+  private failWorkerInit(worker: WorkerHandle, message: string): void {
+    console.error(`Thready: ${message}`);
+    this.recordStartupFailure(message);
+    this.removeWorker(worker, 'init');
+
+    this.ensureMinWorkers();
+    this.processQueue();
+    this.settleWarmUp();
+  }
+
+  /**
+   * Settles warmUp() callers once no worker is initializing anymore.
+   */
+  private settleWarmUp(): void {
+    if (this.initializingWorkers.size > 0 || this.warmUpWaiters.length === 0) return;
+
+    const waiters = this.warmUpWaiters;
+    this.warmUpWaiters = [];
+
+    if (this.shuttingDown) {
+      const error = new Error('The pool was shut down before its workers were ready');
+      waiters.forEach(waiter => waiter.reject(error));
+    } else if (this.circuitOpen) {
+      const error = new CircuitOpenError(this.startupFailures, this.lastStartupError);
+      waiters.forEach(waiter => waiter.reject(error));
+    } else if (
+      this.initHandshake &&
+      this.startupFailures > 0 &&
+      !this.workers.some(worker => this.startedWorkers.has(worker))
+    ) {
+      // Every worker started since the last ready one failed to initialize: none is ready.
+      const error = new Error(this.lastStartupError);
+      waiters.forEach(waiter => waiter.reject(error));
     } else {
-      // Web Worker (Standard DOM style)
-      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
-        this.handleWorkerMessage(worker, event.data);
-      };
+      waiters.forEach(waiter => waiter.resolve());
+    }
+  }
 
-      worker.onerror = (error) => {
-        console.error('Worker error:', error);
-        this.handleWorkerError(worker, error);
-      };
+  /**
+   * Adds a worker to the available pool and, if it has no task left, arms its idle timer.
+   *
+   * @param worker - The worker with a free slot.
+   */
+  private markIdle(worker: WorkerHandle): void {
+    if (!this.availableWorkers.includes(worker)) this.availableWorkers.push(worker);
+
+    if (this.idleTimeoutMs > 0 && this.workerLoad(worker) === 0) {
+      clearTimeout(this.idleTimers.get(worker));
+      this.idleTimers.set(worker, setTimeout(() => {
+        this.idleTimers.delete(worker);
+
+        // Reap the worker only if it's still idle and the pool stays above its minimum.
+        if (this.isIdle(worker) && this.workers.length > this.minWorkers) {
+          this.removeWorker(worker, 'idle');
+        }
+      }, this.idleTimeoutMs));
     }
+  }
 
-    // Add the new worker to the master list of workers.
-    this.workers.push(worker);
+  /**
+   * Number of tasks a worker is running (including cancelled tasks it is still finishing).
+   */
+  private workerLoad(worker: WorkerHandle): number {
+    return this.workerTaskMap.get(worker)?.size ?? 0;
+  }
+
+  /**
+   * Checks whether a worker is available and runs no task.
+   */
+  private isIdle(worker: WorkerHandle): boolean {
+    return this.workerLoad(worker) === 0 && this.availableWorkers.includes(worker);
+  }
+
+  /**
+   * Returns the available worker running the fewest tasks (the first one on a tie).
+   */
+  private leastLoadedWorker(): WorkerHandle | undefined {
+    let best: WorkerHandle | undefined;
+    for (const worker of this.availableWorkers) {
+      if (!best || this.workerLoad(worker) < this.workerLoad(best)) best = worker;
+      if (this.workerLoad(best) === 0) break;
+    }
+    return best;
+  }
 
-    // Immediately verify the worker is available for work and add it to the available pool.
-    this.availableWorkers.push(worker);
+  /**
+   * Takes the least-loaded available worker (or a specific one) out of the available pool.
+   *
+   * @param specific - A worker known to be available, to take instead of the least-loaded one.
+   * @returns The worker, or undefined if none is available.
+   */
+  private takeIdleWorker(specific?: WorkerHandle): WorkerHandle | undefined {
+    const candidate = specific ?? this.leastLoadedWorker();
+    const index = candidate ? this.availableWorkers.indexOf(candidate) : -1;
+    const worker = index > -1 ? this.availableWorkers.splice(index, 1)[0] : undefined;
+
+    if (worker) {
+      clearTimeout(this.idleTimers.get(worker));
+      this.idleTimers.delete(worker);
+    }
 
     return worker;
   }
 
+  /**
+   * Dispatches a normalized event of a worker.
+   *
+   * @param worker - The worker that emitted the event.
+   * @param event - The event.
+   */
+  private handleWorkerEvent(worker: WorkerHandle, event: WorkerEvent): void {
+    switch (event.type) {
+      case 'message':
+        this.handleWorkerMessage(worker, event.data);
+        break;
+      case 'error':
+        console.error('Worker error:', event.error);
+        this.handleWorkerError(worker, event.error);
+        break;
+      case 'messageerror':
+        // The worker's response is lost, so its task can't complete - treat it like a crash.
+        console.error('Worker message error:', event.error);
+        this.handleWorkerError(worker, event.error);
+        break;
+      case 'exit':
+        // Exits caused by the pool are not reported; any other exit means the worker died.
+        if (this.workers.includes(worker)) {
+          this.handleWorkerError(worker, new Error(`Worker exited unexpectedly with code ${event.code}`));
+        }
+        break;
+    }
+  }
+
   /**
    * Handles messages sent back from a worker.
    * 
    * @param worker - The worker instance that sent the message.
    * @param response - The data payload received from the worker.
    */
-  private handleWorkerMessage(worker: Worker, response: WorkerResponse): void {
+  private handleWorkerMessage(worker: WorkerHandle, response: WorkerResponse): void {
     const taskId = response.id;
 
+    // A worker still in its init handshake only answers the 'init' message.
+    if (this.initializingWorkers.has(worker)) {
+      this.handleInitResponse(worker, response);
+      return;
+    }
+
+    // Any message proves the worker started, which closes the startup-failure streak.
+    if (!this.startedWorkers.has(worker)) {
+      this.startedWorkers.add(worker);
+      this.startupFailures = 0;
+    }
+
+    // Keep the latest resource usage for memory-based recycling.
+    if (response.usage) {
+      const lifecycle = this.lifecycles.get(worker);
+      if (lifecycle) lifecycle.usage = response.usage;
+    }
+
+    // A worker finishing a cancelled task within its grace period can be reused.
+    if (this.cancellingTasks.has(taskId)) {
+      if (response.type === 'result' || response.type === 'error') {
+        clearTimeout(this.cancellingTasks.get(taskId));
+        this.cancellingTasks.delete(taskId);
+        this.releaseTask(worker, taskId);
+        this.returnWorkerToPool(worker);
+      }
+      return;
+    }
+
     // Retrieve the task associated with this ID from the active tasks map.
     const task = this.activeTasks.get(taskId);
 
@@ -178,25 +733,49 @@ export class WorkerPool {
 
     // Check the type of response from the worker.
     if (response.type === 'result') {
+      // Batch results carry per-item errors - rebuild them like any task error.
+      const payload = task.batch
+        ? (response.payload as BatchItemResult[]).map((item): BatchItemOutcome =>
+          item.ok ? item : { ok: false, error: deserializeTaskError(item.error, task.id, task.type) })
+        : response.payload;
+
       // If successful, resolve the task's promise with the payload.
-      task.resolve(response.payload);
+      task.resolve(payload);
 
       // Cleanup: Remove the task from tracking maps.
       this.activeTasks.delete(taskId);
-      this.workerTaskMap.delete(worker);
+      this.releaseTask(worker, taskId);
 
       // Return the worker to the pool to handle the next task.
       this.returnWorkerToPool(worker);
     } else if (response.type === 'error') {
-      // If the worker reported an error, reject the task's promise.
-      task.reject(new Error(response.payload));
-
       // Cleanup: Remove the task from tracking maps.
       this.activeTasks.delete(taskId);
-      this.workerTaskMap.delete(worker);
+      this.releaseTask(worker, taskId);
+
+      // If the worker reported an error, rebuild it and reject the task's promise (or retry it).
+      // Hand-written workers may send only the message as payload.
+      const error = deserializeTaskError(
+        response.error ?? { name: 'Error', message: String(response.payload) },
+        task.id,
+        task.type
+      );
+      this.failTask(task, error, false);
 
       // Return the worker to the pool (assuming the error didn't kill the worker).
       this.returnWorkerToPool(worker);
+    } else if (response.type === 'chunk') {
+      // Stream chunks don't settle the task either - the final 'result' ends the stream.
+      task.onChunk?.(response.payload);
+    } else if (response.type === 'progress') {
+      // Progress updates never settle the task - just forward them to the caller.
+      if (task.onProgress) {
+        try {
+          task.onProgress(response.payload);
+        } catch (error) {
+          console.error('Progress callback error:', error);
+        }
+      }
     }
   }
 
@@ -204,165 +783,1450 @@ export class WorkerPool {
    * Handles low-level errors emitted by the worker (e.g., script load failure, syntax error).
    * 
    * @param worker - The worker that encountered the error.
-   * @param error - The error event object.
+   * @param error - The error reported for the worker.
    */
-  private handleWorkerError(worker: Worker, error: ErrorEvent): void {
-    // Find the task currently assigned to this worker.
-    const taskId = this.workerTaskMap.get(worker);
-
-    // If there was an active task, we must reject it so the caller isn't left hanging.
-    if (taskId) {
-      const task = this.activeTasks.get(taskId);
-      if (task) {
-        task.reject(new Error(error.message));
-        this.activeTasks.delete(taskId);
-      }
-    }
+  private handleWorkerError(worker: WorkerHandle, error: Error): void {
+    // Find the tasks currently assigned to this worker.
+    const taskIds = [...(this.workerTaskMap.get(worker) ?? [])];
 
-    // Since the worker is in an error state, we remove it from our tracking arrays.
-    // Find index in main workers array.
-    const index = this.workers.indexOf(worker);
-    if (index > -1) {
-      this.workers.splice(index, 1);
+    // A worker that dies before ever responding counts as a startup failure.
+    if (!this.startedWorkers.has(worker)) {
+      this.recordStartupFailure(error.message);
     }
 
-    // Find index in available workers array (unlikely to be here if it was working, but good safety).
-    const availIndex = this.availableWorkers.indexOf(worker);
-    if (availIndex > -1) {
-      this.availableWorkers.splice(availIndex, 1);
-    }
+    // The worker is in an error state - remove it before deciding what to do with its tasks.
+    this.removeWorker(worker, 'crash');
 
-    // Terminate the physical worker thread to clean up resources.
-    worker.terminate();
+    // Active tasks must be rejected (or retried) so their callers aren't left hanging.
+    // The crash is only blamed on a task that was running alone.
+    this.failCrashedTasks(taskIds, error, taskIds.length === 1);
 
-    // Replace the dead worker with a fresh one to maintain pool size.
-    this.createWorker();
+    // Replace the dead worker with a fresh one if needed.
+    this.ensureMinWorkers();
+    this.processQueue();
+    this.settleWarmUp();
   }
 
   /**
-   * Returns a worker to the available pool and triggers queue processing.
-   * 
-   * @param worker - The worker to release.
+   * Fails (or retries) the tasks that were running on a worker that is gone.
+   * Tasks that already settled (e.g. cancelled ones) are skipped.
+   *
+   * @param taskIds - IDs of the tasks the worker was running.
+   * @param error - Why the worker is gone.
+   * @param blamed - Whether the tasks caused the crash (see poison-task detection).
    */
-  private returnWorkerToPool(worker: Worker): void {
-    // Add the worker back to the available list.
-    this.availableWorkers.push(worker);
+  private failCrashedTasks(taskIds: string[], error: Error, blamed: boolean): void {
+    for (const taskId of taskIds) {
+      const task = this.activeTasks.get(taskId);
+      if (!task) continue;
 
-    // Check if there are queued tasks that this now-free worker can handle.
-    this.processQueue();
+      this.activeTasks.delete(taskId);
+      this.failTask(task, new WorkerCrashError(task.id, task.type, error.message, error), true, blamed);
+    }
   }
 
   /**
-   * Processes the task queue.
-   * Assigns waiting tasks to available workers.
+   * Settles a failed attempt: quarantines tasks that keep crashing workers,
+   * retries according to the task's retry policy, or rejects the task.
+   *
+   * @param task - The task whose attempt failed (already removed from activeTasks).
+   * @param error - The error of the attempt.
+   * @param crashed - Whether the attempt ended with its worker crashing.
+   * @param blamed - Whether the task caused the crash, counting towards quarantine.
    */
-  private processQueue(): void {
-    // Continue loop as long as we have both tasks in the queue AND workers available.
-    while (this.taskQueue.length > 0 && this.availableWorkers.length > 0) {
-      // Dequeue the next task (FIFO).
-      const task = this.taskQueue.shift()!;
+  private failTask(task: Task, error: Error, crashed: boolean, blamed = crashed): void {
+    // The execution timeout belongs to the failed attempt.
+    if (task.timer !== undefined) {
+      clearTimeout(task.timer);
+      task.timer = undefined;
+    }
 
-      // Get the next available worker.
-      const worker = this.availableWorkers.shift()!;
+    // Poison-task detection: stop running a payload that keeps killing workers,
+    // whether it comes back as a retry or as a new submission.
+    if (blamed && this.poisonTaskThreshold > 0) {
+      const key = this.poisonKey(task);
+      let streaks = this.crashStreaks.get(task.type);
+      if (!streaks) {
+        streaks = new Map();
+        this.crashStreaks.set(task.type, streaks);
+      }
+      const crashes = (streaks.get(key) ?? 0) + 1;
+      streaks.delete(key);
+      streaks.set(key, crashes);
 
-      // Assign the task to the worker.
-      this.executeTask(worker, task);
+      // Keep the streaks bounded, forgetting the least recently crashed payloads.
+      if (streaks.size > 1000) {
+        streaks.delete(streaks.keys().next().value!);
+      }
+
+      if (crashes >= this.poisonTaskThreshold) {
+        this.quarantine.push({
+          id: task.id,
+          taskType: task.type,
+          payload: task.payload,
+          crashes,
+          error
+        });
+
+        // Keep the quarantine list bounded.
+        if (this.quarantine.length > 100) this.quarantine.shift();
+
+        task.reject(new PoisonTaskError(task.id, task.type, crashes));
+        return;
+      }
+    }
+
+    // Streams are never retried: a new attempt would repeat chunks already delivered.
+    const policy = task.streamCredit !== undefined ? undefined : task.retry ?? this.retryPolicy;
+    const attempt = (task.attempts ?? 0) + 1;
+    const shouldRetry = policy !== undefined &&
+      attempt <= policy.retries &&
+      (policy.retryIf ? policy.retryIf(error, attempt) : crashed);
+
+    if (!shouldRetry) {
+      task.reject(error);
+      return;
     }
+
+    // Exponential backoff: backoffMs * backoffFactor^(attempt - 1), capped at maxBackoffMs.
+    const delay = Math.min(
+      (policy.backoffMs ?? 100) * Math.pow(policy.backoffFactor ?? 2, attempt - 1),
+      policy.maxBackoffMs ?? 30000
+    );
+
+    task.attempts = attempt;
+    this.retryingTasks.add(task);
+    task.retryTimer = setTimeout(() => {
+      task.retryTimer = undefined;
+      this.retryingTasks.delete(task);
+
+      // Re-queue the task for its next attempt.
+      this.enqueue(task);
+    }, delay);
   }
 
   /**
-   * Sends a task to a specific worker for execution.
-   * 
-   * @param worker - The selected worker instance.
-   * @param task - The task object to execute.
+   * Counts a worker that failed before it ever responded. Too many in a row
+   * open the circuit breaker: no more workers are spawned for a while and tasks
+   * that can't be served are rejected.
+   *
+   * @param message - The startup error message.
    */
-  private executeTask(worker: Worker, task: Task): void {
-    // Mark the task as active.
-    this.activeTasks.set(task.id, task);
+  private recordStartupFailure(message: string): void {
+    this.startupFailures++;
+    this.lastStartupError = message;
 
-    // Map the worker to this task ID.
-    this.workerTaskMap.set(worker, task.id);
+    if (this.circuitOpen || this.startupFailures < this.maxStartupFailures) return;
 
-    // Construct the message payload to send to the worker.
-    const message: WorkerMessage = {
-      id: task.id,
-      type: 'task',
-      taskType: task.type,
-      payload: task.payload
-    };
+    this.circuitOpen = true;
+    console.error(`Thready: ${this.startupFailures} consecutive worker startup failures, suspending respawns`);
 
-    // Send the message to the worker.
-    // If transferables are provided (e.g., ArrayBuffers), use the zero-copy transfer format.
-    if (task.transferables && task.transferables.length > 0) {
-      worker.postMessage(message, task.transferables);
-    } else {
-      worker.postMessage(message);
+    // Half-open after the reset period: allow one more attempt to start a worker.
+    if (this.circuitResetMs > 0) {
+      this.circuitTimer = setTimeout(() => {
+        this.circuitTimer = null;
+        this.circuitOpen = false;
+        this.startupFailures = this.maxStartupFailures - 1;
+        this.ensureMinWorkers();
+        this.processQueue();
+      }, this.circuitResetMs);
     }
   }
 
   /**
-   * Public API to run a task on the thread pool.
-   * 
-   * @template T - The expected return type of the task.
-   * @param taskType - A string identifier for the type of work to perform (handled by the worker script).
-   * @param payload - The data needed to perform the task.
-   * @param transferables - Optional list of objects to transfer ownership of (for performance).
-   * @returns A Promise that resolves with the result T.
+   * Removes a worker from the pool, terminates it and creates a fresh one in its place
+   * if the pool still needs it (to stay at minWorkers or to serve queued tasks).
+   * Other tasks still running on the worker fail as if it had crashed.
+   *
+   * @param worker - The worker to replace.
    */
-  public async run<T = any>(
-    taskType: string,
-    payload: any,
-    transferables?: Transferable[]
-  ): Promise<T> {
-    // Return a new Promise that will be handled by the worker callback.
-    return new Promise((resolve, reject) => {
+  private replaceWorker(worker: WorkerHandle): void {
+    const taskIds = [...(this.workerTaskMap.get(worker) ?? [])];
+    this.removeWorker(worker, 'cancel');
+    // The cancelled task is no longer active: the others are terminated for it, not because of them.
+    this.failCrashedTasks(taskIds, new Error('it was terminated to stop a cancelled task'), false);
+
+    // Replace the dead worker with a fresh one to maintain pool size,
+    // and let the pool pick up any queued work.
+    this.ensureMinWorkers();
+    this.processQueue();
+  }
+
+  /**
+   * Returns the fingerprint of a task's payload, identifying it across
+   * submissions for poison-task detection. Computed on first use, since it
+   * reads the whole payload.
+   */
+  private poisonKey(task: Task): string {
+    task.poisonKey ??= fingerprintPayload(task.payload);
+    return task.poisonKey;
+  }
+
+  /**
+   * Forgets the crash streak of a task's payload once the task completes.
+   * Only fingerprints the payload if payloads of its task type have crashed.
+   */
+  private clearCrashStreak(task: Task): void {
+    const streaks = this.crashStreaks.get(task.type);
+    if (!streaks) return;
+
+    streaks.delete(this.poisonKey(task));
+    if (streaks.size === 0) this.crashStreaks.delete(task.type);
+  }
+
+  /**
+   * Removes a worker from all tracking structures and terminates it.
+   *
+   * @param worker - The worker to remove.
+   * @param reason - Why it leaves the pool (reported in the workerExit event).
+   */
+  private removeWorker(worker: WorkerHandle, reason: WorkerExitReason): void {
+    const lifecycle = this.lifecycles.get(worker);
+    if (lifecycle) this.recordWorkerExit(lifecycle, reason);
+
+    // Remove the worker from our tracking arrays.
+    // Find index in main workers array.
+    const index = this.workers.indexOf(worker);
+    if (index > -1) {
+      this.workers.splice(index, 1);
+    }
+
+    // Find index in available workers array (unlikely to be here if it was working, but good safety).
+    const availIndex = this.availableWorkers.indexOf(worker);
+    if (availIndex > -1) {
+      this.availableWorkers.splice(availIndex, 1);
+    }
+
+    // Forget any task mapping and pending timers for this worker.
+    for (const taskId of this.workerTaskMap.get(worker) ?? []) {
+      clearTimeout(this.cancellingTasks.get(taskId));
+      this.cancellingTasks.delete(taskId);
+    }
+    this.workerTaskMap.delete(worker);
+    clearTimeout(this.idleTimers.get(worker));
+    this.idleTimers.delete(worker);
+    clearTimeout(this.initializingWorkers.get(worker));
+    this.initializingWorkers.delete(worker);
+    clearTimeout(lifecycle?.lifetimeTimer);
+    this.lifecycles.delete(worker);
+
+    // Free the worker's ring slot; its keys move on, and so do tasks waiting for it.
+    this.affinityRing.remove(worker);
+    this.workerSlots.delete(worker);
+    this.releaseAffinityBacklog(worker);
+
+    // Terminate the physical worker thread to clean up resources.
+    worker.terminate();
+  }
+
+  /**
+   * Cancels a task, whether it is still queued or already running.
+   *
+   * @param task - The task to cancel.
+   * @param error - The error to reject the task with (AbortError or TimeoutError).
+   * @param gracePeriodMs - How long the worker gets to stop cooperatively (0 = terminate it).
+   */
+  private cancelTask(task: Task, error: Error, gracePeriodMs = this.cancelGracePeriodMs): void {
+    // A queued task simply leaves the queue.
+    if (this.taskQueue.remove(task)) {
+      task.reject(error);
+      return;
+    }
+
+    // A task waiting to be retried just stops waiting.
+    if (this.retryingTasks.delete(task)) {
+      task.reject(error);
+      return;
+    }
+
+    // So does a task waiting for its preferred worker.
+    for (const backlog of this.affinityBacklog.values()) {
+      const index = backlog.indexOf(task);
+      if (index > -1) {
+        backlog.splice(index, 1);
+        task.reject(error);
+        return;
+      }
+    }
+
+    // Ignore tasks that have already settled.
+    if (this.activeTasks.get(task.id) !== task) return;
+
+    this.activeTasks.delete(task.id);
+    task.reject(error);
+
+    // Find the worker that is running the task.
+    const worker = this.findTaskWorker(task);
+    if (!worker) return;
+
+    if (gracePeriodMs > 0 || this.workerLoad(worker) > 1) {
+      // Ask the worker to stop cooperatively, then force-terminate it (failing its other
+      // tasks) if it doesn't. A worker running other tasks always gets a grace period.
+      const message: WorkerMessage = { id: task.id, type: 'cancel', payload: null };
+      worker.send(message);
+      const stuckWorker = worker;
+      this.cancellingTasks.set(
+        task.id,
+        setTimeout(() => this.replaceWorker(stuckWorker), gracePeriodMs > 0 ? gracePeriodMs : COOPERATIVE_CANCEL_GRACE_MS)
+      );
+    } else {
+      this.replaceWorker(worker);
+    }
+  }
+
+  /**
+   * Finds the worker currently running a task.
+   *
+   * @param task - The running task.
+   * @returns The worker, or undefined if the task isn't running.
+   */
+  private findTaskWorker(task: Task): WorkerHandle | undefined {
+    for (const [worker, taskIds] of this.workerTaskMap) {
+      if (taskIds.has(task.id)) return worker;
+    }
+    return undefined;
+  }
+
+  /**
+   * Frees the slot a finished task occupied on its worker.
+   *
+   * @param worker - The worker that ran the task.
+   * @param taskId - ID of the task.
+   */
+  private releaseTask(worker: WorkerHandle, taskId: string): void {
+    const taskIds = this.workerTaskMap.get(worker);
+    if (!taskIds?.delete(taskId)) return;
+
+    if (taskIds.size === 0) {
+      this.workerTaskMap.delete(worker);
+      this.recordWorkerIdle(worker);
+    }
+  }
+
+  /**
+   * Returns a worker to the available pool and triggers queue processing.
+   * 
+   * @param worker - The worker to release.
+   */
+  private returnWorkerToPool(worker: WorkerHandle): void {
+    const recycleReason = this.recycleReason(worker);
+
+    if (this.workerLoad(worker) > 0 && (this.workers.length > this.maxWorkers || recycleReason)) {
+      // The worker is retired once its other tasks finish - it takes no new ones meanwhile.
+      this.takeIdleWorker(worker);
+    } else if (this.workers.length > this.maxWorkers) {
+      // The pool was shrunk with resize() while this worker was busy - retire it now.
+      this.removeWorker(worker, 'resize');
+    } else if (recycleReason) {
+      // The worker reached its task, lifetime or memory limit - swap it for a fresh one.
+      this.recycleWorker(worker, recycleReason);
+    } else if (this.affinityBacklog.get(worker)?.length) {
+      // Tasks were waiting for this worker specifically - they go first.
+      const backlog = this.affinityBacklog.get(worker)!;
+      const task = backlog.shift()!;
+      if (backlog.length === 0) this.affinityBacklog.delete(worker);
+      this.executeTask(worker, task);
+    } else {
+      // Add the worker back to the available list (if it isn't there already).
+      this.markIdle(worker);
+    }
+
+    // Check if there are queued tasks that this now-free worker can handle.
+    this.processQueue();
+  }
+
+  /**
+   * Processes the task queue.
+   * Assigns waiting tasks to available workers, spawning new workers
+   * (up to maxWorkers) when none is idle.
+   */
+  private processQueue(): void {
+    // Continue loop as long as we have tasks in the queue AND workers available (or room for more).
+    while (this.taskQueue.length > 0) {
+      // Get the least-loaded available worker.
+      let worker = this.leastLoadedWorker();
+
+      // Without an idle worker, grow the pool rather than share a busy one.
+      if (!worker || this.workerLoad(worker) > 0) {
+        // While the circuit is open, no workers are spawned. If none are left at all,
+        // the queued tasks can't run and are rejected.
+        if (this.circuitOpen) {
+          if (this.workers.length === 0) {
+            const circuitError = new CircuitOpenError(this.startupFailures, this.lastStartupError);
+            this.taskQueue.clear().forEach(task => task.reject(circuitError));
+          }
+          if (!worker) break;
+        } else if (
+          // Queue pressure - grow the pool if we're below the limit. Workers still
+          // initializing will pick up queued tasks once they're ready.
+          this.workers.length < this.maxWorkers &&
+          this.initializingWorkers.size < this.taskQueue.length
+        ) {
+          let created: WorkerHandle;
+          try {
+            created = this.createWorker();
+          } catch (error) {
+            // The worker couldn't even be constructed (e.g. bad path) - fail the task instead of looping.
+            this.recordStartupFailure((error as Error).message);
+            this.taskQueue.shift()!.reject(error as Error);
+            continue;
+          }
+
+          if (this.initializingWorkers.has(created)) continue;
+          worker = created;
+        } else if (!worker) {
+          break;
+        }
+      }
+      worker = this.takeIdleWorker(worker)!;
+
+      // Dequeue the next task (by lane share and priority).
+      const task = this.taskQueue.shift()!;
+
+      // Tasks with an affinity key go to (or wait for) their preferred worker.
+      if (task.affinityKey !== undefined) {
+        const routed = this.routeAffinity(task, worker);
+        if (!routed) continue;
+        worker = routed;
+      }
+
+      // Assign the task to the worker.
+      this.executeTask(worker, task);
+    }
+  }
+
+  /**
+   * Sends a task to a specific worker for execution.
+   * 
+   * @param worker - The selected worker instance.
+   * @param task - The task object to execute.
+   */
+  private executeTask(worker: WorkerHandle, task: Task): void {
+    // Mark the task as active.
+    this.activeTasks.set(task.id, task);
+
+    // Map the worker to this task ID.
+    let taskIds = this.workerTaskMap.get(worker);
+    if (!taskIds) {
+      taskIds = new Set();
+      this.workerTaskMap.set(worker, taskIds);
+    }
+    taskIds.add(task.id);
+
+    // Count the task towards the worker's recycling limit.
+    const lifecycle = this.lifecycles.get(worker);
+    if (lifecycle) lifecycle.tasks++;
+
+    // A worker with a free slot stays available for further tasks, unless it is due to be retired.
+    this.takeIdleWorker(worker);
+    if (taskIds.size < this.concurrencyPerWorker && !this.recycleReason(worker) && this.workers.length <= this.maxWorkers) {
+      this.markIdle(worker);
+    }
+
+    // Report the start of the attempt and how long it waited for a worker.
+    const now = performance.now();
+    const waitMs = now - (task.queuedAt ?? now);
+    task.startedAt = now;
+    task.workerId = lifecycle?.id;
+    if (lifecycle) {
+      this.metrics.taskStarted(task.type, lifecycle.id, waitMs);
+      this.emit('taskStart', {
+        taskId: task.id,
+        taskType: task.type,
+        attempt: (task.attempts ?? 0) + 1,
+        workerId: lifecycle.id,
+        waitMs
+      });
+    }
+
+    // Start the execution timeout, if one was requested.
+    if (task.timeoutMs !== undefined) {
+      const timeoutMs = task.timeoutMs;
+      task.timer = setTimeout(
+        () => this.cancelTask(task, new TimeoutError(task.id, task.type, timeoutMs)),
+        timeoutMs
+      );
+    }
+
+    // Construct the message payload to send to the worker.
+    const message: WorkerMessage = {
+      id: task.id,
+      type: 'task',
+      taskType: task.type,
+      payload: task.payload,
+      ...(task.batch && { batch: true }),
+      ...(task.streamCredit !== undefined && { streamCredit: task.streamCredit }),
+      ...(task.parallel && { parallel: true }),
+      ...(task.graph && { graph: true })
+    };
+
+    // Send the message to the worker.
+    // If transferables are provided (e.g., ArrayBuffers), use the zero-copy transfer format.
+    try {
+      if (task.transferables && task.transferables.length > 0) {
+        worker.send(message, task.transferables);
+      } else {
+        worker.send(message);
+      }
+    } catch (error) {
+      // The message couldn't be sent (e.g. a DataCloneError for a payload holding a function).
+      // The worker never saw the task: free its slot and fail only this task.
+      this.activeTasks.delete(task.id);
+      this.releaseTask(worker, task.id);
+      if (lifecycle) lifecycle.tasks--;
+      task.reject(error as Error);
+
+      // Offered again once the caller is done: dispatching from here would nest one
+      // call per queued task that can't be sent either.
+      queueMicrotask(() => {
+        if (this.workers.includes(worker)) this.returnWorkerToPool(worker);
+      });
+    }
+  }
+
+  /**
+   * Public API to run a task on the thread pool.
+   * 
+   * @param taskType - A string identifier for the type of work to perform (handled by the worker script).
+   * @param payload - The data needed to perform the task.
+   * @param options - Optional list of objects to transfer ownership of (for performance),
+   *                  or a RunOptions object (transferables, onProgress, signal, timeoutMs, priority, lane).
+   * @returns A Promise that resolves with the task's result.
+   */
+  public run<K extends TaskName<M>>(
+    taskType: K,
+    ...args: TaskArgs<M, K>
+  ): Promise<TaskResult<M, K>>;
+
+  /**
+   * Untyped form, kept for pools without a task map: `run<ResultType>('task', payload)`.
+   * 
+   * @template T - The expected return type of the task.
+   */
+  public run<T = any>(
+    taskType: string extends TaskName<M> ? string : never,
+    payload: any,
+    options?: Transferable[] | RunOptions
+  ): Promise<T>;
+
+  public run(
+    taskType: string,
+    payload: any,
+    options?: Transferable[] | RunOptions
+  ): Promise<any> {
+    return this.submit(taskType, payload, options);
+  }
+
+  /**
+   * Creates a task and either dispatches it to an idle worker or queues it.
+   * Untyped counterpart of run(), used by the public APIs built on top of it.
+   */
+  private submit(
+    taskType: string,
+    payload: any,
+    options?: Transferable[] | RunOptions,
+    internal: InternalTaskFields = {},
+    onCreate?: (task: Task) => void
+  ): Promise<any> {
+    // Accept the legacy transferables array as well as the options object.
+    const { transferables, onProgress, signal, timeoutMs, priority, lane, retry, affinityKey }: RunOptions = Array.isArray(options)
+      ? { transferables: options }
+      : (options ?? {});
+
+    // Return a new Promise that will be handled by the worker callback.
+    return new Promise((resolve, reject) => {
+      const id = `task_${Date.now()}_${Math.random()}`; // Generate a unique ID.
+
+      // No new work is accepted once shutdown has started.
+      if (this.shuttingDown) {
+        reject(new PoolShutdownError(id, taskType));
+        return;
+      }
+
+      // Don't even queue a task whose signal has already fired.
+      if (signal?.aborted) {
+        reject(new AbortError(id, taskType, signal.reason));
+        return;
+      }
+
+      // Detach the abort listener and timers once the task settles either way,
+      // and let a pending shutdown know when the last task is done.
+      let settled = false;
+      const cleanup = (error: Error | null) => {
+        if (task.timer !== undefined) clearTimeout(task.timer);
+        if (task.retryTimer !== undefined) clearTimeout(task.retryTimer);
+        signal?.removeEventListener('abort', onAbort);
+
+        if (!settled) {
+          settled = true;
+          this.pendingTasks--;
+          this.recordTaskSettled(task, error);
+          // Deferred so the pool finishes its own bookkeeping for this task first.
+          if (this.pendingTasks === 0 && this.drainWaiters.length > 0) {
+            queueMicrotask(() => this.notifyDrained());
+          }
+        }
+      };
+      const onAbort = () => this.cancelTask(task, new AbortError(id, taskType, signal?.reason));
+
       // Create the internal Task object.
-      const task: Task<T> = {
-        id: `task_${Date.now()}_${Math.random()}`, // Generate a unique ID.
+      const task: Task = {
+        id,
         type: taskType,
         payload,
-        resolve, // Store the resolve function to call later.
-        reject,  // Store the reject function to call on error.
-        ...(transferables !== undefined && { transferables }) // Conditionally add transferables.
+        resolve: (value) => { // Store the resolve function to call later.
+          // A payload that completes is no longer suspected of crashing workers.
+          this.clearCrashStreak(task);
+          cleanup(null);
+          resolve(value);
+        },
+        reject: (error) => { cleanup(error); reject(error); },  // Store the reject function to call on error.
+        ...(transferables !== undefined && { transferables }), // Conditionally add transferables.
+        ...(onProgress !== undefined && { onProgress }), // Conditionally add the progress callback.
+        ...(timeoutMs !== undefined && { timeoutMs }), // Conditionally add the execution timeout.
+        ...(priority !== undefined && { priority }), // Conditionally add the scheduling priority.
+        ...(lane !== undefined && { lane }), // Conditionally add the scheduling lane.
+        ...(retry !== undefined && { retry }), // Conditionally add the retry policy.
+        ...(affinityKey !== undefined && { affinityKey }), // Conditionally add the routing key.
+        ...internal // Batch (map()) and stream (stream()) settings.
       };
 
-      // If a worker is immediately available, execute the task now.
-      if (this.availableWorkers.length > 0) {
-        const worker = this.availableWorkers.shift()!;
-        this.executeTask(worker, task);
-      } else {
-        // Otherwise, put the task in the queue to be picked up later.
-        this.taskQueue.push(task);
+      // Fingerprinted now if transferring will detach the payload's buffers; otherwise
+      // only once needed (see poisonKey()).
+      if (this.poisonTaskThreshold > 0 && transferables !== undefined && transferables.length > 0) {
+        this.poisonKey(task);
       }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pendingTasks++;
+      onCreate?.(task);
+
+      // Queue the task; it runs right away if a worker is idle (or can be spawned).
+      this.enqueue(task);
     });
   }
 
+  /**
+   * Calls everyone waiting for the pool to run out of pending tasks.
+   */
+  private notifyDrained(): void {
+    if (this.pendingTasks > 0) return;
+
+    const waiters = this.drainWaiters;
+    this.drainWaiters = [];
+    waiters.forEach(waiter => waiter());
+  }
+
+  /**
+   * Adds a task to the queue and dispatches whatever can run now.
+   *
+   * @param task - The task to queue.
+   */
+  private enqueue(task: Task): void {
+    task.queuedAt = performance.now();
+    this.taskQueue.push(task);
+    this.emit('taskQueued', {
+      taskId: task.id,
+      taskType: task.type,
+      attempt: (task.attempts ?? 0) + 1,
+      queuedTasks: this.taskQueue.length + this.getAffinityBacklogSize()
+    });
+    this.processQueue();
+  }
+
+  /**
+   * Records a task settling for good in the metrics and reports it to listeners.
+   *
+   * @param task - The task.
+   * @param error - Why it failed, or null if it completed.
+   */
+  private recordTaskSettled(task: Task, error: Error | null): void {
+    const durationMs = task.startedAt !== undefined ? performance.now() - task.startedAt : undefined;
+    this.metrics.taskSettled(task.type, error === null, durationMs);
+
+    if (error === null) {
+      this.emit('taskEnd', {
+        taskId: task.id,
+        taskType: task.type,
+        workerId: task.workerId ?? 0,
+        waitMs: (task.startedAt ?? 0) - (task.queuedAt ?? 0),
+        durationMs: durationMs ?? 0
+      });
+    } else {
+      this.emit('taskError', {
+        taskId: task.id,
+        taskType: task.type,
+        error,
+        attempts: task.startedAt !== undefined ? (task.attempts ?? 0) + 1 : (task.attempts ?? 0),
+        ...(task.workerId !== undefined && { workerId: task.workerId }),
+        ...(durationMs !== undefined && { durationMs })
+      });
+    }
+  }
+
+  /**
+   * Records a worker that finished its task as idle in the metrics.
+   */
+  private recordWorkerIdle(worker: WorkerHandle): void {
+    const lifecycle = this.lifecycles.get(worker);
+    if (lifecycle) this.metrics.workerIdle(lifecycle.id);
+  }
+
+  /**
+   * Records a worker leaving the pool in the metrics and reports it to listeners.
+   */
+  private recordWorkerExit(lifecycle: WorkerLifecycle, reason: WorkerExitReason): void {
+    this.metrics.workerExited(lifecycle.id, reason);
+    this.emit('workerExit', {
+      workerId: lifecycle.id,
+      reason,
+      uptimeMs: performance.now() - lifecycle.createdAt,
+      tasks: lifecycle.tasks
+    });
+  }
+
+  /**
+   * Subscribes to a lifecycle event of the pool.
+   *
+   * @param event - taskQueued, taskStart, taskEnd, taskError, workerSpawn or workerExit.
+   * @param listener - Called synchronously with the event's payload.
+   * @returns A function removing the listener.
+   *
+   * @example
+   * pool.on('taskEnd', ({ taskType, durationMs }) => histogram.observe({ taskType }, durationMs));
+   */
+  public on<E extends PoolEventName>(event: E, listener: PoolEventListener<E>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Removes a listener added with on().
+   */
+  public off<E extends PoolEventName>(event: E, listener: PoolEventListener<E>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Calls the listeners of an event. A throwing listener doesn't affect the pool.
+   */
+  private emit<E extends PoolEventName>(event: E, payload: PoolEventMap[E]): void {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error('Event listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * Runs a self-contained function on a generic worker, without a worker script.
+   * The function's source is sent to the worker, compiled there once (and cached
+   * by source), and called with the given arguments. Arguments and result must
+   * be structured-cloneable.
+   *
+   * The function runs in the worker's global scope, so it cannot use variables
+   * from the surrounding code - a captured variable fails with a ReferenceError
+   * explaining this. Pass such values as arguments instead.
+   *
+   * Generic workers live in a separate pool (same size limits) created on first
+   * use: Node.js worker_threads with `eval: true`, or Blob URL workers in browsers.
+   * Disabled with `allowFunctions: false`.
+   *
+   * @param fn - The function to run (function expression or arrow function).
+   * @param args - Arguments passed to the function.
+   * @returns A Promise resolving to the function's (awaited) return value.
+   *
+   * @example
+   * const primes = await pool.runFunction((limit) => {
+   *   const sieve = new Uint8Array(limit);
+   *   // ...
+   *   return count;
+   * }, 1e7);
+   */
+  public async runFunction<A extends any[], R>(fn: (...args: A) => R, ...args: A): Promise<Awaited<R>> {
+    if (!this.allowFunctions) {
+      throw new Error('runFunction() is disabled for this pool (allowFunctions: false)');
+    }
+
+    const source = serializeFunction(fn);
+    const pool = await this.getFunctionPool();
+    return pool.submit(FUNCTION_TASK, { source, args });
+  }
+
+  /**
+   * Returns the pool of generic workers used by runFunction(), creating it on first use.
+   */
+  private getFunctionPool(): Promise<WorkerPool> {
+    if (!this.functionPoolReady) {
+      this.functionPoolReady = createFunctionWorkerFactory(this.resourceLimits).then(
+        ({ factory, dispose }) => {
+          // Inherit idle reaping, cancellation and crash handling. Generic workers are
+          // always spawned lazily; lanes, default retries and init data don't apply to them.
+          const {
+            maxWorkers, minWorkers, worker, lanes, retry, allowFunctions, initData, initTimeoutMs, ...shared
+          } = this.config;
+          const pool = new WorkerPool({ ...shared, maxWorkers: this.maxWorkers, worker: factory, allowFunctions: false });
+
+          this.functionPool = pool;
+          this.disposeFunctionWorkers = dispose;
+
+          // The pool started shutting down while the factory was loading.
+          if (this.shuttingDown) this.terminateFunctionPool();
+          return pool;
+        },
+        (error) => {
+          // Allow a later call to try again.
+          this.functionPoolReady = null;
+          throw error;
+        }
+      );
+    }
+
+    return this.functionPoolReady;
+  }
+
+  /**
+   * Immediately terminates the function pool, if one was created.
+   */
+  private terminateFunctionPool(): void {
+    this.functionPool?.terminate();
+    this.disposeFunctionWorkers?.();
+    this.disposeFunctionWorkers = null;
+  }
+
+  /**
+   * Runs a streaming task and returns its chunks as an async iterable.
+   * The worker handler returns an iterable or async iterable (typically a
+   * generator); every value it yields arrives as one chunk.
+   *
+   * Backpressure: the worker is paused once `highWaterMark` chunks are waiting
+   * to be read, and resumes as the consumer catches up. Leaving the
+   * `for await` loop early cancels the task in the worker.
+   *
+   * @param taskType - The streaming task to run.
+   * @param payload - The data needed to perform the task.
+   * @param options - Buffer size, cancellation, timeout and scheduling options.
+   *
+   * @example
+   * // worker: rows: async function* (url) { for await (const row of parse(url)) yield row; }
+   * for await (const row of pool.stream('rows', url)) {
+   *   if (done(row)) break; // cancels the task in the worker
+   * }
+   */
+  public stream<K extends TaskName<M>>(
+    taskType: K,
+    payload: TaskPayload<M, K>,
+    options?: StreamOptions
+  ): TaskStream<TaskStreamItem<M, K>>;
+
+  /**
+   * Untyped form, for pools without a task map: `stream<ChunkType>('task', payload)`.
+   *
+   * @template T - The type of the chunks.
+   */
+  public stream<T = any>(
+    taskType: string extends TaskName<M> ? string : never,
+    payload: any,
+    options?: StreamOptions
+  ): TaskStream<T>;
+
+  public stream(taskType: string, payload: any, options: StreamOptions = {}): TaskStream<any> {
+    const { highWaterMark = 16, ...runOptions } = options;
+    if (!Number.isInteger(highWaterMark) || highWaterMark < 1) {
+      throw new Error(`Invalid highWaterMark: ${highWaterMark}`);
+    }
+
+    let task: Task | undefined;
+    const stream = new TaskStream<any>(
+      highWaterMark,
+      (credit) => {
+        const worker = task && this.findTaskWorker(task);
+        if (!worker) return;
+        const message: WorkerMessage = { id: task!.id, type: 'credit', payload: credit };
+        worker.send(message);
+      },
+      () => {
+        if (!task) return;
+        this.cancelTask(
+          task,
+          new AbortError(task.id, task.type, 'Stream closed by consumer'),
+          Math.max(this.cancelGracePeriodMs, COOPERATIVE_CANCEL_GRACE_MS)
+        );
+      }
+    );
+
+    this.submit(
+      taskType,
+      payload,
+      runOptions,
+      { streamCredit: highWaterMark, onChunk: (chunk) => stream.push(chunk) },
+      (created) => { task = created; }
+    ).then(() => stream.end(), (error) => stream.fail(error));
+
+    return stream;
+  }
+
+  /**
+   * Runs a task once per item, in parallel, and returns the results in input order.
+   * Items are sent to workers in chunks (one message per chunk instead of per item).
+   * Typed arrays are sliced per chunk and the slices are transferred, not copied.
+   *
+   * @param items - The input items (array, array-like or typed array).
+   * @param taskType - The task to run for every item.
+   * @param options - Chunking, concurrency, error mode and scheduling options.
+   * @returns The results in input order - or, with `errors: 'settle'`, one
+   *          PromiseSettledResult per item.
+   */
+  public map<K extends TaskName<M>>(
+    items: ArrayLike<TaskPayload<M, K>>,
+    taskType: K,
+    options?: MapOptions & { errors?: 'fail-fast' }
+  ): Promise<TaskResult<M, K>[]>;
+
+  public map<K extends TaskName<M>>(
+    items: ArrayLike<TaskPayload<M, K>>,
+    taskType: K,
+    options: MapOptions & { errors: 'settle' }
+  ): Promise<PromiseSettledResult<TaskResult<M, K>>[]>;
+
+  public async map(items: ArrayLike<any>, taskType: string, options: MapOptions = {}): Promise<any[]> {
+    const { chunkSize, concurrency, errors = 'fail-fast', ...runOptions } = options;
+    const settle = errors === 'settle';
+    const results: any[] = new Array(items.length);
+
+    await forEachChunk(
+      items.length,
+      this.resolveChunkSize(items.length, chunkSize),
+      concurrency ?? this.maxWorkers,
+      async (_chunkIndex, start, end) => {
+        const { payload, transferables } = sliceChunk(items, start, end);
+
+        let itemResults: BatchItemOutcome[];
+        try {
+          itemResults = await this.submit(taskType, payload, { ...runOptions, transferables }, { batch: true });
+        } catch (error) {
+          // The whole chunk failed (crash, timeout, abort...).
+          if (!settle) throw error;
+          for (let i = start; i < end; i++) {
+            results[i] = { status: 'rejected', reason: error };
+          }
+          return;
+        }
+
+        itemResults.forEach((item, offset) => {
+          if (item.ok) {
+            results[start + offset] = settle ? { status: 'fulfilled', value: item.value } : item.value;
+          } else if (settle) {
+            results[start + offset] = { status: 'rejected', reason: item.error };
+          } else {
+            throw item.error;
+          }
+        });
+      }
+    );
+
+    return results;
+  }
+
+  /**
+   * Map-reduce over a large input: the input is split into chunks, each chunk is
+   * passed as the payload of one task (the handler reduces it to a partial result
+   * inside the worker), and the partial results are combined on the main thread
+   * in input order. Typed arrays are sliced per chunk and transferred.
+   *
+   * @param items - The input (array, array-like or typed array).
+   * @param taskType - The task that reduces one chunk to a partial result.
+   * @param combine - Folds a partial result into the accumulator.
+   * @param initial - The initial accumulator value.
+   * @param options - Chunking, concurrency and scheduling options.
+   *
+   * @example
+   * // worker: sum: (chunk) => chunk.reduce((a, b) => a + b, 0)
+   * const total = await pool.reduce(new Float64Array(1e7), 'sum', (acc, part) => acc + part, 0);
+   */
+  public async reduce<K extends TaskName<M>, A>(
+    items: TaskPayload<M, K> & ArrayLike<any>,
+    taskType: K,
+    combine: (accumulator: A, partial: TaskResult<M, K>, chunkIndex: number) => A,
+    initial: A,
+    options: MapOptions = {}
+  ): Promise<A> {
+    const { chunkSize, concurrency, errors: _errors, ...runOptions } = options;
+    const partials: TaskResult<M, K>[] = [];
+
+    await forEachChunk(
+      items.length,
+      this.resolveChunkSize(items.length, chunkSize),
+      concurrency ?? this.maxWorkers,
+      async (chunkIndex, start, end) => {
+        const { payload, transferables } = sliceChunk(items, start, end);
+        partials[chunkIndex] = await this.submit(taskType, payload, { ...runOptions, transferables });
+      }
+    );
+
+    return partials.reduce(combine, initial);
+  }
+
+  /**
+   * Data-parallel loop over a typed array in shared memory: the array is split
+   * into index ranges, and each partition task receives the shared buffer plus
+   * its range (see ParallelPartition) and writes its results in place.
+   * No data is copied per task.
+   *
+   * An array not backed by a SharedArrayBuffer is copied into one first and the
+   * results are copied back. Where SharedArrayBuffer is unavailable (browsers
+   * without cross-origin isolation), partitions are sent as transferred copies
+   * instead, unless `fallback: 'error'` is set.
+   *
+   * @param array - The data to process in place.
+   * @param taskType - The task that processes one partition.
+   * @param options - Partitions, progress and scheduling options.
+   * @returns The same array, once every partition has finished.
+   *
+   * @example
+   * // worker: scale: ({ array, start, end, progress }) => {
+   * //   for (let i = start; i < end; i++) { array[i] *= 2; progress(); }
+   * // }
+   * const data = new Float64Array(new SharedArrayBuffer(8 * 1e7));
+   * await pool.parallelFor(data, 'scale', { partitions: 8, onProgress: (done, total) => ... });
+   */
+  public async parallelFor<A extends TypedArray>(
+    array: A,
+    taskType: TaskName<M>,
+    options: ParallelForOptions = {}
+  ): Promise<A> {
+    const { partitions = this.maxWorkers, onProgress, progressIntervalMs = 100, fallback = 'transfer', ...runOptions } = options;
+    if (!Number.isInteger(partitions) || partitions < 1) {
+      throw new Error(`Invalid partitions: ${partitions}`);
+    }
+
+    const ranges = partitionRange(array.length, partitions);
+
+    if (!isSharedMemoryAvailable()) {
+      if (fallback === 'error') {
+        throw new Error(
+          'parallelFor() requires SharedArrayBuffer, which is not available here. In browsers, the page must be ' +
+          'cross-origin isolated (Cross-Origin-Opener-Policy: same-origin and ' +
+          'Cross-Origin-Embedder-Policy: require-corp). Use fallback: \'transfer\' to send copies instead.'
+        );
+      }
+      return this.parallelForTransfer(array, taskType, ranges, onProgress, runOptions);
+    }
+
+    // Share the input directly if possible, otherwise work on a shared copy.
+    const shared = isShared(array) ? array : toSharedArray(array);
+    const counters = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+    const reportProgress = () => onProgress?.(Atomics.load(counters, 0), array.length);
+    const progressTimer = onProgress ? setInterval(reportProgress, progressIntervalMs) : undefined;
+
+    try {
+      await Promise.all(ranges.map(([start, end], index) =>
+        this.submit(taskType, { array: shared, start, end, offset: 0, index, counters }, runOptions, { parallel: true })
+      ));
+    } finally {
+      clearInterval(progressTimer);
+    }
+    reportProgress();
+
+    if (shared !== array) (array as any).set(shared);
+    return array;
+  }
+
+  /**
+   * parallelFor() without shared memory: each partition is sliced, transferred
+   * to a worker, transferred back and copied into the array.
+   */
+  private async parallelForTransfer<A extends TypedArray>(
+    array: A,
+    taskType: string,
+    ranges: Array<[number, number]>,
+    onProgress: ((completed: number, total: number) => void) | undefined,
+    runOptions: RunOptions
+  ): Promise<A> {
+    let completed = 0;
+    const onPartitionProgress = (count: number) => {
+      completed += count;
+      onProgress?.(completed, array.length);
+    };
+
+    await Promise.all(ranges.map(async ([start, end], index) => {
+      const chunk = array.slice(start, end);
+      const result = await this.submit(
+        taskType,
+        { array: chunk, start: 0, end: end - start, offset: start, index },
+        { ...runOptions, transferables: [chunk.buffer], onProgress: onPartitionProgress },
+        { parallel: true }
+      );
+      (array as any).set(result, start);
+    }));
+
+    return array;
+  }
+
+  /**
+   * Runs a graph of tasks in which nodes depend on the results of other nodes.
+   * Each node starts as soon as its dependencies are done, so independent
+   * branches run in parallel.
+   *
+   * A chain of nodes that each have a single dependency used by nothing else
+   * runs as one task on one worker, and the intermediate results never leave
+   * that worker. Other results are sent to the dependent nodes' workers,
+   * transferred rather than copied when only one node needs them and they
+   * aren't outputs.
+   *
+   * A failed node cancels the nodes depending on it (their error is a
+   * DependencyError); the rest of the graph still runs. The returned promise
+   * only rejects for an invalid graph.
+   *
+   * @param nodes - Node name -> node (task, payload and dependencies).
+   * @param options - Outputs and scheduling options.
+   * @returns The outputs' results and the state and error of every node.
+   *
+   * @example
+   * const { ok, results, errors } = await pool.graph({
+   *   decode:    { task: 'decode', payload: bytes },
+   *   thumbnail: { task: 'resize', dependsOn: ['decode'] },   // receives decode's result
+   *   labels:    { task: 'classify', dependsOn: ['decode'] },
+   *   report:    { task: 'report', dependsOn: ['thumbnail', 'labels'] }  // receives { thumbnail, labels }
+   * });
+   */
+  public async graph(nodes: Record<string, GraphNode<M>>, options: GraphOptions = {}): Promise<GraphResult> {
+    const { outputs, ...runOptions } = options;
+    const plan = planGraph(nodes, outputs);
+
+    return runGraph(plan, async (segment, payload, transferables) => {
+      let taskId = '';
+      const result: GraphSegmentResult = await this.submit(
+        segment.stages[0]!.taskType,
+        payload,
+        { ...runOptions, transferables },
+        { graph: true },
+        (task) => { taskId = task.id; }
+      );
+      if (result.ok) return result;
+
+      const stage = segment.stages.find(candidate => candidate.node === result.node)!;
+      return { ok: false, node: result.node, error: deserializeTaskError(result.error, taskId, stage.taskType) };
+    });
+  }
+
+  /**
+   * Runs tasks one after another, each receiving the previous one's result,
+   * as a single task on one worker: the intermediate results stay in the worker.
+   *
+   * @param taskTypes - The stages, in order.
+   * @param input - Payload of the first stage.
+   * @param options - Scheduling options.
+   * @returns The last stage's result.
+   * @throws The error of the stage that failed.
+   *
+   * @example
+   * const thumbnail = await pool.pipeline(['decode', 'resize', 'encode'], bytes);
+   */
+  public async pipeline(
+    taskTypes: TaskName<M>[],
+    input: any,
+    options: Omit<GraphOptions, 'outputs'> = {}
+  ): Promise<any> {
+    if (taskTypes.length === 0) {
+      throw new Error('A pipeline needs at least one stage');
+    }
+
+    const names = taskTypes.map((taskType, index) => `${index}:${taskType}`);
+    const nodes: Record<string, GraphNode<M>> = {};
+    taskTypes.forEach((taskType, index) => {
+      nodes[names[index]!] = index === 0
+        ? { task: taskType, payload: input }
+        : { task: taskType, dependsOn: [names[index - 1]!] };
+    });
+
+    const last = names[names.length - 1]!;
+    const { ok, results, errors } = await this.graph(nodes, { ...options, outputs: [last] });
+    if (ok) return results[last];
+    throw Object.values(errors).find(error => !(error instanceof DependencyError));
+  }
+
+  /**
+   * Picks the chunk size for map()/reduce(): the requested size, or about 4 chunks per worker.
+   */
+  private resolveChunkSize(length: number, chunkSize: number | undefined): number {
+    if (chunkSize !== undefined) {
+      if (!(chunkSize >= 1)) throw new Error(`Invalid chunkSize: ${chunkSize}`);
+      return Math.floor(chunkSize);
+    }
+    return Math.max(1, Math.ceil(length / (this.maxWorkers * 4)));
+  }
+
+  /**
+   * Proxy-style access to the tasks: `pool.tasks.fibonacci(30)` is
+   * equivalent to `pool.run('fibonacci', 30)`.
+   */
+  public get tasks(): TaskProxy<M> {
+    if (!this.taskProxy) {
+      this.taskProxy = createTaskProxy<M>((taskType, payload, options) => this.submit(taskType, payload, options));
+    }
+
+    return this.taskProxy;
+  }
+
+  /**
+   * Changes the maximum pool size at runtime.
+   * Growing spawns workers as queued tasks need them; shrinking terminates idle
+   * workers right away and retires busy workers once their current tasks finish,
+   * so no task is ever interrupted.
+   *
+   * @param maxWorkers - The new maximum number of workers (at least 1).
+   */
+  public resize(maxWorkers: number): void {
+    if (!Number.isInteger(maxWorkers) || maxWorkers < 1) {
+      throw new Error(`Invalid pool size: ${maxWorkers}`);
+    }
+
+    this.maxWorkers = maxWorkers;
+    this.minWorkers = Math.min(this.minWorkers, maxWorkers);
+    this.functionPool?.resize(maxWorkers);
+
+    // Terminate surplus idle workers immediately; busy ones retire in returnWorkerToPool().
+    const idleWorkers = this.availableWorkers.filter(worker => this.workerLoad(worker) === 0);
+    while (this.workers.length > this.maxWorkers && idleWorkers.length > 0) {
+      this.removeWorker(idleWorkers.pop()!, 'resize');
+    }
+
+    // Growing may let queued tasks start now.
+    this.processQueue();
+  }
+
+  /**
+   * Starts workers ahead of the first request and waits until they have
+   * finished initializing (see `initData`), so the first tasks don't pay for
+   * worker startup.
+   * Warmed-up workers above minWorkers are still subject to idle reaping.
+   *
+   * @param count - Number of workers to have running. Defaults to maxWorkers (capped at it).
+   * @returns A Promise that resolves once no worker is initializing anymore. It
+   *          rejects with a CircuitOpenError if workers keep failing to start, with
+   *          the last startup error if no worker is ready, and when the pool shuts down.
+   */
+  public warmUp(count: number = this.maxWorkers): Promise<void> {
+    const target = Math.min(count, this.maxWorkers);
+
+    return new Promise((resolve, reject) => {
+      // A worker that can't be constructed rejects the returned promise.
+      while (this.workers.length < target && !this.circuitOpen && !this.shuttingDown) {
+        this.createWorker();
+      }
+
+      this.warmUpWaiters.push({ resolve, reject });
+      this.settleWarmUp();
+    });
+  }
+
+  /**
+   * Returns the tasks that were quarantined for crashing too many workers
+   * (most recent last, at most 100).
+   */
+  public getQuarantinedTasks(): QuarantinedTask[] {
+    return [...this.quarantine];
+  }
+
   /**
    * Retrieves current statistics about the pool.
    * Useful for monitoring and debugging.
    */
   public getStats() {
+    const queue = this.taskQueue.getStats();
+
     return {
       totalWorkers: this.workers.length,      // Total pool size.
-      availableWorkers: this.availableWorkers.length, // Idle workers.
+      minWorkers: this.minWorkers,            // Workers kept alive when idle.
+      maxWorkers: this.maxWorkers,            // Upper limit on pool size.
+      availableWorkers: this.availableWorkers.filter(worker => this.workerLoad(worker) === 0).length, // Idle workers.
+      concurrencyPerWorker: this.concurrencyPerWorker, // Tasks a worker runs at the same time.
+      initializingWorkers: this.initializingWorkers.size, // Workers still in their init handshake.
       activeTasks: this.activeTasks.size,    // Tasks currently running.
-      queuedTasks: this.taskQueue.length     // Tasks waiting for a worker.
+      queuedTasks: this.taskQueue.length + this.getAffinityBacklogSize(), // Tasks waiting for a worker.
+      queuedByPriority: queue.byPriority,    // Queue depth per priority level.
+      queuedByLane: queue.byLane,            // Queue depth per lane.
+      affinityBacklog: this.getAffinityBacklogSize(), // Tasks waiting for their preferred worker.
+      retryingTasks: this.retryingTasks.size, // Tasks waiting out a retry backoff.
+      quarantinedTasks: this.quarantine.length, // Tasks that crashed too many workers.
+      functionWorkers: this.functionPool?.workers.length ?? 0, // Generic workers used by runFunction().
+      recycledWorkers: { ...this.recycled }, // Workers retired per recycling limit.
+      workerUsage: this.getWorkerUsage(),    // Heap and event loop usage reported by workers.
+      circuitOpen: this.circuitOpen,         // Whether worker respawning is suspended.
+      shuttingDown: this.shuttingDown        // Whether the pool has stopped accepting tasks.
     };
   }
 
   /**
-   * Terminates the entire pool.
-   * Kills all workers and clears all queues.
+   * Returns detailed metrics: latency histograms and percentiles, failures and
+   * throughput per task type, worker utilization and worker exits.
+   */
+  public getMetrics(): PoolMetricsSnapshot {
+    return this.metrics.snapshot(this.taskQueue.length + this.getAffinityBacklogSize(), this.activeTasks.size);
+  }
+
+  /**
+   * Exports getMetrics() as JSON or in the Prometheus text exposition format,
+   * e.g. to serve from a `/metrics` endpoint.
+   *
+   * @param format - 'json' (default) or 'prometheus'.
+   */
+  public exportMetrics(format: 'json' | 'prometheus' = 'json'): string {
+    const snapshot = this.getMetrics();
+    return format === 'prometheus'
+      ? formatPrometheus([{ labels: {}, snapshot }])
+      : JSON.stringify(snapshot);
+  }
+
+  /**
+   * Number of tasks waiting for their preferred worker.
+   */
+  private getAffinityBacklogSize(): number {
+    let size = 0;
+    this.affinityBacklog.forEach(backlog => { size += backlog.length; });
+    return size;
+  }
+
+  /**
+   * Aggregates the resource usage last reported by the current workers.
+   */
+  private getWorkerUsage(): { maxHeapUsedMb: number; avgEventLoopUtilization: number | null } {
+    let maxHeapUsed = 0;
+    let utilizationSum = 0;
+    let utilizationCount = 0;
+
+    this.lifecycles.forEach(({ usage }) => {
+      if (!usage) return;
+      maxHeapUsed = Math.max(maxHeapUsed, usage.heapUsed);
+      if (usage.eventLoopUtilization !== undefined) {
+        utilizationSum += usage.eventLoopUtilization;
+        utilizationCount++;
+      }
+    });
+
+    return {
+      maxHeapUsedMb: Math.round((maxHeapUsed / (1024 * 1024)) * 100) / 100,
+      avgEventLoopUtilization: utilizationCount > 0 ? utilizationSum / utilizationCount : null
+    };
+  }
+
+  /**
+   * Gracefully shuts the pool down.
+   * New tasks are rejected right away; running tasks (and, with `drain`, queued
+   * tasks) are allowed to finish. Then all workers are terminated. Tasks still
+   * pending when `timeoutMs` expires are rejected with a PoolShutdownError.
+   *
+   * Calling it again returns the same promise.
+   *
+   * @param options - Drain mode and deadline.
+   * @returns A Promise that resolves once every worker has been terminated.
+   */
+  public shutdown(options: ShutdownOptions = {}): Promise<void> {
+    if (this.shutdownPromise) return this.shutdownPromise;
+
+    this.shuttingDown = true;
+
+    // Without drain, only tasks already running get to finish.
+    if (!options.drain) {
+      this.rejectWaitingTasks();
+    }
+
+    // The function pool shuts down alongside, with the same options.
+    const functionPoolShutdown = this.functionPool?.shutdown(options);
+
+    const poolShutdown = new Promise<void>((resolve) => {
+      let done = false;
+      let deadline: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = () => {
+        if (done) return;
+        done = true;
+        if (deadline !== undefined) clearTimeout(deadline);
+
+        // Rejects whatever is left and terminates the workers.
+        this.terminate();
+        resolve();
+      };
+
+      if (options.timeoutMs !== undefined) {
+        deadline = setTimeout(finish, options.timeoutMs);
+      }
+
+      if (this.pendingTasks === 0) {
+        finish();
+      } else {
+        this.drainWaiters.push(finish);
+      }
+    });
+
+    this.shutdownPromise = Promise.all([poolShutdown, functionPoolShutdown]).then(() => {
+      this.terminateFunctionPool();
+    });
+    return this.shutdownPromise;
+  }
+
+  /**
+   * Rejects every task that isn't running on a worker yet (queued, waiting to retry
+   * or waiting for its preferred worker).
+   */
+  private rejectWaitingTasks(): void {
+    const waiting = [...this.taskQueue.clear(), ...this.retryingTasks];
+    this.retryingTasks.clear();
+    this.affinityBacklog.forEach(backlog => waiting.push(...backlog));
+    this.affinityBacklog.clear();
+
+    waiting.forEach(task => task.reject(new PoolShutdownError(task.id, task.type)));
+  }
+
+  /**
+   * Terminates the entire pool immediately.
+   * Kills all workers, and rejects every queued and running task with a PoolShutdownError.
    */
   public terminate(): void {
-    // Forcefully terminate every worker thread.
+    this.shuttingDown = true;
+
+    // Forcefully terminate every worker thread, including the generic ones.
     this.workers.forEach(worker => worker.terminate());
+    this.lifecycles.forEach(lifecycle => this.recordWorkerExit(lifecycle, 'shutdown'));
+    this.terminateFunctionPool();
+
+    // Stop any pending cancellation and idle timers.
+    this.cancellingTasks.forEach(timer => clearTimeout(timer));
+    this.cancellingTasks.clear();
+    this.idleTimers.forEach(timer => clearTimeout(timer));
+    this.idleTimers.clear();
+    this.initializingWorkers.forEach(timer => clearTimeout(timer));
+    this.initializingWorkers.clear();
+    this.settleWarmUp();
+    this.lifecycles.forEach(({ lifetimeTimer }) => clearTimeout(lifetimeTimer));
+    this.lifecycles.clear();
+
+    // Stop the circuit breaker reset.
+    if (this.circuitTimer) {
+      clearTimeout(this.circuitTimer);
+      this.circuitTimer = null;
+    }
+
+    // Reject everything that is still waiting or running so no caller hangs.
+    this.rejectWaitingTasks();
+    const running = Array.from(this.activeTasks.values());
 
     // Clear the arrays and maps.
     this.workers = [];
     this.availableWorkers = [];
-    this.taskQueue = [];
     this.activeTasks.clear();
     this.workerTaskMap.clear();
+    this.affinityRing = new HashRing();
+    this.workerSlots.clear();
+
+    running.forEach(task => task.reject(new PoolShutdownError(task.id, task.type)));
   }
-}
\ No newline at end of file
+}
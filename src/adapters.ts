@@ -0,0 +1,215 @@
+// ============================================================================
+// WORKER ADAPTERS (main thread)
+// Create workers and talk to them the same way in browsers, Node.js, Bun and
+// Deno. The pool only sees WorkerHandles.
+// ============================================================================
+
+import type {
+  WorkerAdapter,
+  WorkerEvent,
+  WorkerHandle,
+  WorkerMessage
+} from './types.js';
+
+/**
+ * Turns whatever a runtime reports as an error (an Error, an ErrorEvent, a
+ * rejection reason) into an Error.
+ */
+function toError(value: any, fallbackMessage: string): Error {
+  if (value instanceof Error) return value;
+  if (value?.error instanceof Error) return value.error;
+  return new Error(value?.message || fallbackMessage);
+}
+
+/**
+ * Wraps an existing worker in a WorkerHandle: a browser, Bun or Deno Web
+ * Worker, or a Node.js worker_threads Worker (detected by its `.on()` method).
+ * Used for workers returned by `worker` factories, and useful in custom adapters.
+ *
+ * @param worker - The worker.
+ */
+export function wrapWorker(worker: Worker): WorkerHandle {
+  let listener: ((event: WorkerEvent) => void) | null = null;
+  let terminated = false;
+
+  // Nothing is reported once the pool terminated the worker.
+  const emit = (event: WorkerEvent): void => {
+    if (!terminated) listener?.(event);
+  };
+
+  if (typeof (worker as any).on === 'function') {
+    // Node.js Worker (EventEmitter style) - message data isn't wrapped in an event.
+    const nodeWorker = worker as any;
+    nodeWorker.on('message', (data: any) => emit({ type: 'message', data }));
+    nodeWorker.on('error', (error: any) => emit({ type: 'error', error: toError(error, 'Worker error') }));
+    nodeWorker.on('messageerror', (error: any) => emit({
+      type: 'messageerror',
+      error: toError(error, 'A message from the worker could not be deserialized')
+    }));
+    nodeWorker.on('exit', (code: number) => emit({ type: 'exit', code }));
+  } else {
+    // Web Worker (standard DOM style)
+    worker.onmessage = (event: MessageEvent) => emit({ type: 'message', data: event.data });
+    worker.onerror = (event: ErrorEvent) => emit({ type: 'error', error: toError(event, 'Worker error') });
+    worker.onmessageerror = () => emit({
+      type: 'messageerror',
+      error: new Error('A message from the worker could not be deserialized')
+    });
+
+    // Bun reports workers that stopped on their own with a 'close' event.
+    (worker as any).addEventListener?.('close', (event: any) => emit({ type: 'exit', code: event?.code ?? 0 }));
+  }
+
+  return {
+    send: (message, transferables) => {
+      if (transferables && transferables.length > 0) {
+        worker.postMessage(message, transferables);
+      } else {
+        worker.postMessage(message);
+      }
+    },
+    listen: (newListener) => {
+      listener = newListener;
+    },
+    terminate: () => {
+      if (terminated) return;
+      terminated = true;
+      void worker.terminate();
+    }
+  };
+}
+
+/**
+ * Returns a handle for a worker that is still being created. Messages sent in
+ * the meantime are queued, and a failed creation is reported as an 'error'
+ * event (so the pool counts it as a startup failure).
+ *
+ * @param created - Resolves with the worker once it exists.
+ */
+function deferredWorker(created: Promise<Worker>): WorkerHandle {
+  let handle: WorkerHandle | null = null;
+  let listener: ((event: WorkerEvent) => void) | null = null;
+  let terminated = false;
+  const queue: Array<[WorkerMessage, Transferable[] | undefined]> = [];
+
+  created.then(
+    (worker) => {
+      if (terminated) {
+        void worker.terminate();
+        return;
+      }
+
+      const ready = wrapWorker(worker);
+      handle = ready;
+      if (listener) ready.listen(listener);
+
+      for (const [message, transferables] of queue.splice(0)) {
+        try {
+          ready.send(message, transferables);
+        } catch (error) {
+          // Too late to throw to the caller of send().
+          listener?.({ type: 'messageerror', error: toError(error, 'A message could not be sent to the worker') });
+          return;
+        }
+      }
+    },
+    (error) => {
+      if (!terminated) listener?.({ type: 'error', error: toError(error, 'Worker could not be created') });
+    }
+  );
+
+  return {
+    send: (message, transferables) => {
+      if (handle) {
+        handle.send(message, transferables);
+      } else {
+        // Clone the message now so that a payload that can't be sent (e.g. holding a
+        // function) throws to the caller like it would once the worker exists. Skipped
+        // with transferables, which would be detached.
+        if (!transferables || transferables.length === 0) structuredClone(message);
+        queue.push([message, transferables]);
+      }
+    },
+    listen: (newListener) => {
+      listener = newListener;
+      handle?.listen(newListener);
+    },
+    terminate: () => {
+      terminated = true;
+      handle?.terminate();
+    }
+  };
+}
+
+/**
+ * Web Workers in browsers. Scripts are loaded as classic workers; use a
+ * factory for module workers (`{ type: 'module' }`).
+ */
+export const browserAdapter: WorkerAdapter = {
+  name: 'browser',
+  create: (script) => wrapWorker(new Worker(script))
+};
+
+type NodeWorkerConstructor = new (script: string | URL, options?: object) => Worker;
+
+// worker_threads' Worker constructor, once loaded.
+let NodeWorker: NodeWorkerConstructor | null = null;
+let nodeWorkerLoading: Promise<NodeWorkerConstructor> | null = null;
+
+/**
+ * Loads worker_threads lazily, so browser bundles never include it. Works in
+ * ESM and CommonJS alike.
+ */
+function loadNodeWorker(): Promise<NodeWorkerConstructor> {
+  if (!nodeWorkerLoading) {
+    const moduleName = 'worker_threads';
+    nodeWorkerLoading = import(/* @vite-ignore */ /* webpackIgnore: true */ moduleName).then((workerThreads) => {
+      NodeWorker = workerThreads.Worker;
+      return workerThreads.Worker;
+    });
+  }
+  return nodeWorkerLoading;
+}
+
+/**
+ * worker_threads in Node.js. Relative paths are resolved against the current
+ * working directory; `.mjs` scripts (or `.js` in an ESM package) run as modules.
+ * The first workers are started as soon as worker_threads has loaded.
+ */
+export const nodeAdapter: WorkerAdapter = {
+  name: 'node',
+  create: (script, options) => {
+    const workerOptions = options.resourceLimits && { resourceLimits: options.resourceLimits };
+
+    if (NodeWorker) {
+      return wrapWorker(new NodeWorker(script, workerOptions));
+    }
+    return deferredWorker(loadNodeWorker().then(Constructor => new Constructor(script, workerOptions)));
+  }
+};
+
+/**
+ * Module Web Workers in Bun and Deno. Relative paths are resolved against
+ * the current working directory. Resource limits are not supported.
+ */
+export const bunDenoAdapter: WorkerAdapter = {
+  name: 'bun-deno',
+  create: (script) => {
+    const runtime = globalThis as any;
+    const cwd: string = runtime.Deno ? runtime.Deno.cwd() : runtime.process.cwd();
+    const path = cwd.replace(/\\/g, '/').replace(/\/?$/, '/');
+    const base = `file://${path.startsWith('/') ? '' : '/'}${path}`;
+    return wrapWorker(new Worker(new URL(script, base), { type: 'module' }));
+  }
+};
+
+/**
+ * Picks the adapter for the current runtime.
+ */
+export function detectAdapter(): WorkerAdapter {
+  const runtime = globalThis as any;
+
+  if (runtime.Deno || runtime.Bun) return bunDenoAdapter;
+  if (typeof window === 'undefined' && runtime.process?.versions?.node) return nodeAdapter;
+  return browserAdapter;
+}
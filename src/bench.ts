@@ -0,0 +1,129 @@
+import { resolve } from 'path';
+import { availableParallelism } from 'os';
+import { WorkerPool } from './WorkerPool.js';
+
+/**
+ * Options of `thready bench`.
+ */
+export interface BenchOptions {
+  // Payload sent with every task.
+  payload?: unknown;
+  // Pool sizes to measure. Defaults to powers of two up to the CPU count, plus the CPU count.
+  sizes?: number[];
+  // Measured tasks per pool size. Defaults to 200.
+  tasks?: number;
+}
+
+/**
+ * Measurements for one pool size.
+ */
+export interface BenchResult {
+  workers: number;
+  // Completed tasks per second.
+  throughput: number;
+  // Round-trip latency of a task (submit to result), in ms.
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+/**
+ * Default pool sizes: 1, 2, 4... up to the number of CPU cores, plus that number.
+ */
+function defaultSizes(): number[] {
+  const cores = availableParallelism();
+  const sizes: number[] = [];
+  for (let size = 1; size < cores; size *= 2) sizes.push(size);
+  sizes.push(cores);
+  return sizes;
+}
+
+/**
+ * Nearest-rank percentile of sorted values.
+ */
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index]!;
+}
+
+/**
+ * Runs a task on pools of different sizes and measures throughput and latency.
+ *
+ * Each size is measured in a closed loop: as many tasks as there are workers
+ * are kept in flight, so latency is the time a task takes without queueing.
+ * The workers are started and warmed up before measuring.
+ *
+ * @param worker - Path of the worker script (compiled JavaScript).
+ * @param taskType - The task to run.
+ * @param options - Payload, pool sizes and number of tasks.
+ * @throws The task's error if it fails.
+ */
+export async function runBench(worker: string, taskType: string, options: BenchOptions = {}): Promise<BenchResult[]> {
+  const sizes = options.sizes ?? defaultSizes();
+  const total = options.tasks ?? 200;
+  const results: BenchResult[] = [];
+
+  for (const size of sizes) {
+    const pool = new WorkerPool({ worker: resolve(worker), minWorkers: size, maxWorkers: size });
+
+    try {
+      // Warm-up: start every worker and let the handler get optimized.
+      await Promise.all(Array.from({ length: size * 2 }, () => pool.run(taskType, options.payload)));
+
+      const latencies: number[] = [];
+      let submitted = 0;
+
+      // One loop per worker, each submitting its next task when the previous one is done.
+      const loop = async (): Promise<void> => {
+        while (submitted < total) {
+          submitted++;
+          const start = performance.now();
+          await pool.run(taskType, options.payload);
+          latencies.push(performance.now() - start);
+        }
+      };
+
+      const start = performance.now();
+      await Promise.all(Array.from({ length: size }, loop));
+      const elapsed = performance.now() - start;
+
+      latencies.sort((a, b) => a - b);
+      results.push({
+        workers: size,
+        throughput: total / (elapsed / 1000),
+        p50: percentile(latencies, 50),
+        p95: percentile(latencies, 95),
+        p99: percentile(latencies, 99)
+      });
+    } finally {
+      pool.terminate();
+    }
+  }
+
+  return results;
+}
+
+/**
+ * `thready bench`: runs the benchmark and prints a table of the results.
+ */
+export async function bench(worker: string, taskType: string, options: BenchOptions = {}) {
+  console.log(`Benchmarking "${taskType}" from ${worker} (${options.tasks ?? 200} tasks per pool size)\n`);
+
+  const results = await runBench(worker, taskType, options);
+
+  const header = ['workers', 'tasks/s', 'p50 ms', 'p95 ms', 'p99 ms'];
+  const rows = results.map(result => [
+    String(result.workers),
+    result.throughput.toFixed(1),
+    result.p50.toFixed(2),
+    result.p95.toFixed(2),
+    result.p99.toFixed(2)
+  ]);
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column]!.length)));
+  for (const row of [header, ...rows]) {
+    console.log(row.map((cell, column) => cell.padStart(widths[column]!)).join('   '));
+  }
+
+  const best = results.reduce((a, b) => (b.throughput > a.throughput ? b : a));
+  console.log(`\nBest throughput: maxWorkers: ${best.workers} (${best.throughput.toFixed(1)} tasks/s)`);
+}
@@ -1,15 +1,127 @@
-import { init } from "./workerTemplates.js";
+import { parseArgs } from 'util';
+import { init, addTask, type InitTarget, type InitFramework } from './workerTemplates.js';
+import { bench } from './bench.js';
+
 const args = process.argv.slice(2);
 const command = args[0];
 
-switch (command) {
-  case 'init':
-    init();
-    break;
-  default:
-    console.log('Thready CLI');
-    console.log('');
-    console.log('Usage:');
-    console.log('  npx thready init  - Initialize Thready in your project');
-    break;
-}
\ No newline at end of file
+const TARGETS: InitTarget[] = ['node', 'browser', 'both'];
+const FRAMEWORKS: InitFramework[] = ['vite', 'webpack'];
+
+function printUsage() {
+  console.log('Thready CLI');
+  console.log('');
+  console.log('Usage:');
+  console.log('  npx thready init                       - Initialize Thready in your project');
+  console.log('      --target node|browser|both         - Runtime(s) to generate files for (default: both)');
+  console.log('      --typescript                       - Generate a typed TypeScript worker and config');
+  console.log('      --framework vite|webpack           - Bundler that loads the browser worker');
+  console.log('  npx thready add-task <name>            - Add a handler stub to the worker');
+  console.log('      --worker <path>                    - Worker to edit (default: the workers in thready-js/)');
+  console.log('  npx thready bench <worker> <taskType>  - Measure throughput and latency per pool size');
+  console.log('      --payload <json>                   - Payload sent with every task');
+  console.log('      --sizes <n,n,...>                  - Pool sizes to measure (default: 1, 2, 4... CPU cores)');
+  console.log('      --tasks <n>                        - Measured tasks per pool size (default: 200)');
+}
+
+/**
+ * Parses a positive integer option.
+ */
+function parseCount(value: string, option: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`--${option} expects positive integers, got "${value}"`);
+  }
+  return count;
+}
+
+async function main() {
+  switch (command) {
+    case 'init': {
+      const { values } = parseArgs({
+        args: args.slice(1),
+        options: {
+          target: { type: 'string', default: 'both' },
+          typescript: { type: 'boolean', default: false },
+          framework: { type: 'string' }
+        }
+      });
+
+      const target = values.target as InitTarget;
+      if (!TARGETS.includes(target)) {
+        throw new Error(`--target must be one of ${TARGETS.join(', ')}, got "${values.target}"`);
+      }
+      const framework = values.framework as InitFramework | undefined;
+      if (framework !== undefined && !FRAMEWORKS.includes(framework)) {
+        throw new Error(`--framework must be one of ${FRAMEWORKS.join(', ')}, got "${values.framework}"`);
+      }
+      if (framework !== undefined && target === 'node') {
+        console.log('⚠ --framework only applies to browser targets, ignoring...');
+      }
+
+      init({
+        target,
+        typescript: values.typescript,
+        ...(framework !== undefined && target !== 'node' && { framework })
+      });
+      break;
+    }
+
+    case 'add-task': {
+      const { values, positionals } = parseArgs({
+        args: args.slice(1),
+        options: { worker: { type: 'string' } },
+        allowPositionals: true
+      });
+
+      const [name] = positionals;
+      if (!name || positionals.length > 1) {
+        throw new Error('Usage: npx thready add-task <name> [--worker <path>]');
+      }
+      addTask(name, values.worker);
+      break;
+    }
+
+    case 'bench': {
+      const { values, positionals } = parseArgs({
+        args: args.slice(1),
+        options: {
+          payload: { type: 'string' },
+          sizes: { type: 'string' },
+          tasks: { type: 'string' }
+        },
+        allowPositionals: true
+      });
+
+      const [worker, taskType] = positionals;
+      if (!worker || !taskType || positionals.length > 2) {
+        throw new Error('Usage: npx thready bench <worker> <taskType> [--payload <json>] [--sizes <n,n,...>] [--tasks <n>]');
+      }
+
+      let payload: unknown;
+      if (values.payload !== undefined) {
+        try {
+          payload = JSON.parse(values.payload);
+        } catch {
+          throw new Error(`--payload is not valid JSON: ${values.payload}`);
+        }
+      }
+
+      await bench(worker, taskType, {
+        payload,
+        ...(values.sizes !== undefined && { sizes: values.sizes.split(',').map(size => parseCount(size.trim(), 'sizes')) }),
+        ...(values.tasks !== undefined && { tasks: parseCount(values.tasks, 'tasks') })
+      });
+      break;
+    }
+
+    default:
+      printUsage();
+      break;
+  }
+}
+
+main().catch((error: Error) => {
+  console.error(`✗ ${error.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,330 @@
+// ============================================================================
+// ERROR CLASSES
+// Distinguishable errors used to reject task promises, plus the format used
+// to send errors across the worker boundary.
+// ============================================================================
+
+import type { SerializedError } from './types.js';
+
+// Brand shared by ThreadyTaskError instances and rebuilt registered errors,
+// so that `instanceof ThreadyTaskError` holds for both.
+const TASK_ERROR = Symbol.for('thready.taskError');
+
+/**
+ * Base class of all errors a task promise is rejected with.
+ * Carries the task ID and type and, for errors raised inside a worker,
+ * the stack trace captured in the worker.
+ */
+export class ThreadyTaskError extends Error {
+  // Stack trace captured inside the worker, if the error originated there.
+  public workerStack?: string;
+
+  // The underlying error, if any.
+  public cause?: unknown;
+
+  /**
+   * @param message - The error message.
+   * @param taskId - ID of the task.
+   * @param taskType - Type of the task.
+   */
+  constructor(
+    message: string,
+    public taskId: string,
+    public taskType: string
+  ) {
+    super(message);
+    this.name = 'ThreadyTaskError';
+    (this as any)[TASK_ERROR] = true;
+  }
+
+  /**
+   * Rebuilt application errors (see registerError) are not real subclasses,
+   * but are branded so that `instanceof ThreadyTaskError` still holds for them.
+   */
+  static [Symbol.hasInstance](value: unknown): boolean {
+    if (this === ThreadyTaskError) {
+      return typeof value === 'object' && value !== null && (value as any)[TASK_ERROR] === true;
+    }
+    return Function.prototype[Symbol.hasInstance].call(this, value);
+  }
+}
+
+/**
+ * Thrown when a task handler threw (or rejected) inside the worker.
+ * The original error's name, message, stack, `code`, `cause` chain and custom
+ * fields are preserved.
+ */
+export class TaskHandlerError extends ThreadyTaskError {
+  // The `code` property of the original error, if any (e.g. 'ENOENT').
+  public code?: string | number;
+
+  /**
+   * @param taskId - ID of the failed task.
+   * @param taskType - Type of the failed task.
+   * @param serialized - The error as sent by the worker.
+   */
+  constructor(taskId: string, taskType: string, serialized: SerializedError) {
+    super(serialized.message, taskId, taskType);
+    applySerializedFields(this, serialized);
+  }
+}
+
+/**
+ * Thrown when the worker running a task crashed (e.g. an uncaught exception
+ * or a script that failed to load), as opposed to the handler reporting an error.
+ */
+export class WorkerCrashError extends ThreadyTaskError {
+  /**
+   * @param taskId - ID of the task that was running.
+   * @param taskType - Type of the task that was running.
+   * @param message - The error message reported by the worker.
+   * @param cause - The raw error or event emitted by the worker, if any.
+   */
+  constructor(taskId: string, taskType: string, message: string, cause?: unknown) {
+    super(`Worker crashed while running task "${taskType}": ${message}`, taskId, taskType);
+    this.name = 'WorkerCrashError';
+
+    if (cause !== undefined) {
+      this.cause = cause;
+      if (cause instanceof Error && cause.stack) this.workerStack = cause.stack;
+    }
+  }
+}
+
+/**
+ * Thrown when a task is cancelled through its AbortSignal.
+ */
+export class AbortError extends ThreadyTaskError {
+  /**
+   * @param taskId - ID of the cancelled task.
+   * @param taskType - Type of the cancelled task.
+   * @param reason - The abort reason provided by the signal, if any.
+   */
+  constructor(
+    taskId: string,
+    taskType: string,
+    public readonly reason?: unknown
+  ) {
+    super(`Task "${taskType}" was aborted`, taskId, taskType);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Thrown when a task exceeds its `timeoutMs` while running on a worker.
+ */
+export class TimeoutError extends ThreadyTaskError {
+  /**
+   * @param taskId - ID of the timed-out task.
+   * @param taskType - Type of the timed-out task.
+   * @param timeoutMs - The timeout that was exceeded.
+   */
+  constructor(
+    taskId: string,
+    taskType: string,
+    public readonly timeoutMs: number
+  ) {
+    super(`Task "${taskType}" timed out after ${timeoutMs}ms`, taskId, taskType);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Thrown when a task has crashed several workers in a row and was quarantined
+ * instead of being retried again.
+ */
+export class PoisonTaskError extends ThreadyTaskError {
+  /**
+   * @param taskId - ID of the quarantined task.
+   * @param taskType - Type of the quarantined task.
+   * @param crashes - Number of workers the task crashed.
+   */
+  constructor(
+    taskId: string,
+    taskType: string,
+    public readonly crashes: number
+  ) {
+    super(`Task "${taskType}" crashed ${crashes} workers in a row and was quarantined`, taskId, taskType);
+    this.name = 'PoisonTaskError';
+  }
+}
+
+/**
+ * Thrown for tasks submitted after shutdown started, and for tasks still
+ * queued or running when the pool shuts down.
+ */
+export class PoolShutdownError extends ThreadyTaskError {
+  /**
+   * @param taskId - ID of the rejected task.
+   * @param taskType - Type of the rejected task.
+   */
+  constructor(taskId: string, taskType: string) {
+    super(`Task "${taskType}" was rejected because the pool is shutting down`, taskId, taskType);
+    this.name = 'PoolShutdownError';
+  }
+}
+
+/**
+ * Thrown for queued and new tasks once workers have failed to start too many
+ * times in a row and the pool stopped respawning them.
+ */
+export class CircuitOpenError extends Error {
+  /**
+   * @param failures - Number of consecutive startup failures.
+   * @param lastError - Message of the most recent startup failure.
+   */
+  constructor(
+    public readonly failures: number,
+    public readonly lastError: string
+  ) {
+    super(
+      `Workers failed to start ${failures} times in a row; the pool stopped respawning them. ` +
+      `Last error: ${lastError}`
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Reported for a graph node that was not run because a node it depends on
+ * (directly or indirectly) failed.
+ */
+export class DependencyError extends Error {
+  /**
+   * @param node - The node that was not run.
+   * @param dependency - The failed node.
+   * @param cause - The error the dependency failed with.
+   */
+  constructor(
+    public readonly node: string,
+    public readonly dependency: string,
+    public readonly cause: Error
+  ) {
+    super(`Node "${node}" was not run because "${dependency}" failed: ${cause.message}`);
+    this.name = 'DependencyError';
+  }
+}
+
+// ============================================================================
+// ERROR REGISTRY & SERIALIZATION
+// ============================================================================
+
+// Application error classes rebuilt by name on the main thread.
+const errorRegistry: Map<string, new (...args: any[]) => Error> = new Map();
+
+/**
+ * Registers an application error class so that errors of this class thrown
+ * inside a worker are rebuilt as instances of it on the main thread
+ * (`instanceof` keeps working). Register the class on the main thread;
+ * the worker only needs to throw it.
+ *
+ * @param ErrorClass - The error class.
+ * @param name - The `name` the error carries in the worker. Defaults to the class name.
+ *
+ * @example
+ * class ValidationError extends Error { name = 'ValidationError'; }
+ * registerError(ValidationError);
+ */
+export function registerError(ErrorClass: new (...args: any[]) => Error, name: string = ErrorClass.name): void {
+  errorRegistry.set(name, ErrorClass);
+}
+
+/**
+ * Converts a thrown value into a structured-clone friendly object, keeping the
+ * name, message, stack, `code`, custom fields and the `cause` chain.
+ *
+ * Self-contained (it uses nothing from this module): its source is embedded
+ * in the generic worker of runFunction() (see functionWorker.ts).
+ *
+ * @param error - The thrown value.
+ * @param depth - Current depth in the cause chain (used internally).
+ */
+export function serializeError(error: unknown, depth = 0): SerializedError {
+  // Maximum depth of `cause` chains that are serialized.
+  const maxCauseDepth = 10;
+  // Properties handled explicitly and therefore not copied as custom fields.
+  const reservedKeys = ['name', 'message', 'stack', 'cause'];
+
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) };
+  }
+
+  const serialized: SerializedError = {
+    name: error.name,
+    message: error.message
+  };
+  if (error.stack) serialized.stack = error.stack;
+
+  // Copy custom fields (including `code`) that survive structured cloning.
+  const props: Record<string, any> = {};
+  for (const key of Object.keys(error)) {
+    if (reservedKeys.includes(key)) continue;
+
+    const value = (error as any)[key];
+    if (typeof value === 'function' || typeof value === 'symbol') continue;
+    props[key] = value;
+  }
+  if (Object.keys(props).length > 0) serialized.props = props;
+
+  const cause = (error as any).cause;
+  if (cause !== undefined && depth < maxCauseDepth) {
+    serialized.cause = serializeError(cause, depth + 1);
+  }
+
+  return serialized;
+}
+
+/**
+ * Rebuilds the error of a failed task on the main thread: an instance of the
+ * registered application class when its name is known, otherwise a TaskHandlerError.
+ *
+ * @param serialized - The error as sent by the worker.
+ * @param taskId - ID of the failed task.
+ * @param taskType - Type of the failed task.
+ */
+export function deserializeTaskError(serialized: SerializedError, taskId: string, taskType: string): Error {
+  const ErrorClass = errorRegistry.get(serialized.name);
+  if (!ErrorClass) {
+    return new TaskHandlerError(taskId, taskType, serialized);
+  }
+
+  // Rebuild without calling the constructor, whose signature we don't know.
+  const error = Object.create(ErrorClass.prototype) as Error & Record<string | symbol, any>;
+  error.message = serialized.message;
+  error.taskId = taskId;
+  error.taskType = taskType;
+  error[TASK_ERROR] = true;
+  applySerializedFields(error, serialized);
+  return error;
+}
+
+/**
+ * Rebuilds an error from the `cause` chain (without task information).
+ */
+function deserializeCause(serialized: SerializedError): Error {
+  const ErrorClass = errorRegistry.get(serialized.name) ?? Error;
+  const error = Object.create(ErrorClass.prototype) as Error & Record<string, any>;
+  error.message = serialized.message;
+  applySerializedFields(error, serialized);
+  return error;
+}
+
+/**
+ * Copies name, stack, custom fields and cause from a serialized error onto an error object.
+ */
+function applySerializedFields(error: Error & Record<string, any>, serialized: SerializedError): void {
+  Object.defineProperty(error, 'name', { value: serialized.name, writable: true, configurable: true });
+
+  if (serialized.stack) {
+    error.workerStack = serialized.stack;
+    error.stack = serialized.stack;
+  }
+
+  if (serialized.props) {
+    Object.assign(error, serialized.props);
+  }
+
+  if (serialized.cause) {
+    error.cause = deserializeCause(serialized.cause);
+  }
+}
@@ -0,0 +1,112 @@
+// ============================================================================
+// PAYLOAD FINGERPRINTS (main thread)
+// Identifies a payload across submissions, so that poison-task detection can
+// count the workers it crashed even when it is submitted again as a new task.
+// ============================================================================
+
+/**
+ * Running state of a fingerprint: two independent 32-bit hashes (FNV-1a and
+ * a multiply-rotate hash, 64 bits together) and the number of values visited.
+ */
+interface FingerprintState {
+  hash: number;
+  hash2: number;
+  values: number;
+  seen: Set<object>;
+}
+
+/**
+ * Mixes one 16-bit unit (a character or a byte) into both hashes.
+ */
+function mixUnit(state: FingerprintState, unit: number): void {
+  state.hash ^= unit;
+  state.hash = Math.imul(state.hash, 0x01000193);
+  state.hash2 = Math.imul(state.hash2 ^ unit, 0x5bd1e995);
+  state.hash2 = (state.hash2 << 13) | (state.hash2 >>> 19);
+}
+
+/**
+ * Mixes a string into the hashes.
+ */
+function mix(state: FingerprintState, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    mixUnit(state, value.charCodeAt(i));
+  }
+}
+
+/**
+ * Mixes bytes into the hashes.
+ */
+function mixBytes(state: FingerprintState, bytes: Uint8Array): void {
+  for (let i = 0; i < bytes.length; i++) {
+    mixUnit(state, bytes[i]!);
+  }
+}
+
+function visit(state: FingerprintState, value: unknown): void {
+  state.values++;
+
+  if (typeof value === 'string') {
+    // The length keeps adjacent strings ('ab', 'c' and 'a', 'bc') apart.
+    mix(state, `string:${value.length}:`);
+    mix(state, value);
+    return;
+  }
+
+  if (value === null || typeof value !== 'object') {
+    // Primitives, plus a type tag so that 1 and '1' differ.
+    mix(state, `${typeof value}:${typeof value === 'function' ? '' : String(value)};`);
+    return;
+  }
+
+  if (state.seen.has(value)) {
+    mix(state, 'cycle;');
+    return;
+  }
+  state.seen.add(value);
+
+  if (value instanceof ArrayBuffer || (typeof SharedArrayBuffer !== 'undefined' && value instanceof SharedArrayBuffer)) {
+    mix(state, `buffer:${value.byteLength};`);
+    mixBytes(state, new Uint8Array(value));
+  } else if (ArrayBuffer.isView(value)) {
+    mix(state, `${value.constructor.name}:${value.byteLength};`);
+    mixBytes(state, new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+  } else if (Array.isArray(value)) {
+    mix(state, `array:${value.length}[`);
+    for (const item of value) visit(state, item);
+    mix(state, ']');
+  } else if (value instanceof Map) {
+    mix(state, `map:${value.size}{`);
+    for (const [key, item] of value) {
+      visit(state, key);
+      visit(state, item);
+    }
+    mix(state, '}');
+  } else if (value instanceof Set) {
+    mix(state, `set:${value.size}{`);
+    for (const item of value) visit(state, item);
+    mix(state, '}');
+  } else if (value instanceof Date) {
+    mix(state, `date:${value.getTime()};`);
+  } else {
+    mix(state, '{');
+    for (const key of Object.keys(value)) {
+      mix(state, `${key}:`);
+      visit(state, (value as Record<string, unknown>)[key]);
+    }
+    mix(state, '}');
+  }
+}
+
+/**
+ * Returns a short string identifying a payload: equal payloads (by value, as
+ * structured cloning would copy them) get the same fingerprint. Reads the
+ * whole payload, so the pool only computes it for payloads involved in crashes.
+ *
+ * @param payload - The payload of a task, before its transferables are detached.
+ */
+export function fingerprintPayload(payload: unknown): string {
+  const state: FingerprintState = { hash: 0x811c9dc5, hash2: 0x9747b28c, values: 0, seen: new Set() };
+  visit(state, payload);
+  return `${(state.hash >>> 0).toString(36)}${(state.hash2 >>> 0).toString(36)}.${state.values}`;
+}
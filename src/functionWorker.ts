@@ -0,0 +1,167 @@
+// ============================================================================
+// FUNCTION WORKER (main thread)
+// Generic worker used by WorkerPool.runFunction() to run inline functions
+// without a user worker script.
+// ============================================================================
+
+import type { WorkerResourceLimits } from './types.js';
+import { serializeError } from './errors.js';
+
+// Task type used for function calls on the generic workers.
+export const FUNCTION_TASK = '__thready_function__';
+
+// Maximum number of compiled functions each generic worker keeps.
+const FUNCTION_CACHE_SIZE = 256;
+
+/**
+ * Source of the generic worker. It is evaluated as a classic script (Node.js
+ * `eval: true` or a browser Blob URL), so it must not use imports and must
+ * stay plain JavaScript.
+ *
+ * Functions are compiled with an indirect eval (global scope, so they can't
+ * see anything but globals) and cached by source, so calling the same
+ * function repeatedly only compiles it once per worker.
+ */
+const FUNCTION_WORKER_SOURCE = `
+'use strict';
+var CACHE_SIZE = ${FUNCTION_CACHE_SIZE};
+var cache = new Map();
+
+var port = typeof self !== 'undefined' && typeof self.postMessage === 'function'
+  ? { post: function (m) { self.postMessage(m); }, listen: function (l) { self.onmessage = function (e) { l(e.data); }; } }
+  : (function () {
+      var parentPort = require('worker_threads').parentPort;
+      return { post: function (m) { parentPort.postMessage(m); }, listen: function (l) { parentPort.on('message', l); } };
+    })();
+
+function compile(source) {
+  var fn = cache.get(source);
+  if (fn) return fn;
+  try {
+    fn = (0, eval)('(' + source + ')');
+  } catch (error) {
+    throw new SyntaxError('runFunction() could not compile the function (' + error.message + '). ' +
+      'Pass a function expression or an arrow function, not a method or a class.');
+  }
+  if (cache.size >= CACHE_SIZE) cache.delete(cache.keys().next().value);
+  cache.set(source, fn);
+  return fn;
+}
+
+function usage() {
+  return typeof process !== 'undefined' && typeof process.memoryUsage === 'function'
+    ? { heapUsed: process.memoryUsage().heapUsed }
+    : undefined;
+}
+
+// serializeError() from errors.ts.
+var serialize = ${serializeError.toString()};
+
+// Calls that are running, and those the pool cancelled: functions get no
+// signal, so a cancelled call is answered right away and its outcome dropped.
+var running = new Set();
+var cancelled = new Set();
+
+port.listen(function (message) {
+  if (!message) return;
+  if (message.type === 'cancel') {
+    if (!running.has(message.id)) return;
+    cancelled.add(message.id);
+    port.post({ id: message.id, type: 'error', payload: 'Cancelled', error: { name: 'AbortError', message: 'Cancelled' } });
+    return;
+  }
+  if (message.type !== 'task') return;
+
+  var id = message.id;
+  running.add(id);
+  Promise.resolve()
+    .then(function () {
+      var fn = compile(message.payload.source);
+      return fn.apply(undefined, message.payload.args);
+    })
+    .finally(function () {
+      running.delete(id);
+    })
+    .then(function (result) {
+      if (cancelled.delete(id)) return;
+      port.post({ id: id, type: 'result', payload: result, usage: usage() });
+    }, function (error) {
+      if (cancelled.delete(id)) return;
+      if (error && error.name === 'ReferenceError') {
+        error.message += ' - functions passed to runFunction() run in a separate worker and ' +
+          'cannot capture outer variables; pass them as arguments instead';
+      }
+      var serialized = serialize(error);
+      try {
+        port.post({ id: id, type: 'error', payload: error && error.message, error: serialized, usage: usage() });
+      } catch (cloneError) {
+        // Some custom field couldn't be cloned - send the error without them.
+        delete serialized.props;
+        try {
+          port.post({ id: id, type: 'error', payload: error && error.message, error: serialized, usage: usage() });
+        } catch (secondCloneError) {
+          port.post({ id: id, type: 'error', payload: String(error), error: { name: 'Error', message: String(error) } });
+        }
+      }
+    });
+});
+`;
+
+/**
+ * Returns the source of a function that is about to be sent to a worker.
+ *
+ * @param fn - The function to serialize.
+ * @throws TypeError if the value is not a function or its source isn't available
+ *         (native and bound functions).
+ */
+export function serializeFunction(fn: Function): string {
+  if (typeof fn !== 'function') {
+    throw new TypeError('runFunction() expects a function');
+  }
+
+  const source = Function.prototype.toString.call(fn);
+  if (/\{\s*\[native code\]\s*\}\s*$/.test(source)) {
+    throw new TypeError(
+      `runFunction() cannot send native or bound functions to a worker${fn.name ? ` (got "${fn.name}")` : ''}`
+    );
+  }
+
+  return source;
+}
+
+/**
+ * Creates a factory for generic function workers in the current environment:
+ * a Node.js worker_threads Worker evaluating the source (`eval: true`), or a
+ * browser Worker loaded from a Blob URL.
+ *
+ * @param resourceLimits - Resource limits applied to Node.js workers.
+ * @returns The factory, and a function releasing resources held by it (the Blob URL).
+ */
+export async function createFunctionWorkerFactory(
+  resourceLimits?: WorkerResourceLimits
+): Promise<{ factory: () => Worker; dispose: () => void }> {
+  const isNode = typeof window === 'undefined' &&
+    typeof (globalThis as any).process !== 'undefined' &&
+    (globalThis as any).process?.versions?.node;
+
+  if (isNode) {
+    // Load worker_threads lazily so browser bundles never include it.
+    const moduleName = 'worker_threads';
+    const { Worker: NodeWorker } = await import(/* @vite-ignore */ /* webpackIgnore: true */ moduleName);
+
+    return {
+      factory: () => new NodeWorker(FUNCTION_WORKER_SOURCE, { eval: true, resourceLimits }) as unknown as Worker,
+      dispose: () => {}
+    };
+  }
+
+  if (typeof Blob === 'undefined' || typeof URL === 'undefined' || typeof URL.createObjectURL !== 'function') {
+    throw new Error('runFunction() requires Blob URL support to create workers in this environment');
+  }
+
+  const url = URL.createObjectURL(new Blob([FUNCTION_WORKER_SOURCE], { type: 'text/javascript' }));
+  return {
+    factory: () => new Worker(url),
+    dispose: () => URL.revokeObjectURL(url)
+  };
+}
@@ -0,0 +1,269 @@
+// ============================================================================
+// TASK GRAPHS (main thread)
+// Validation, segmentation and scheduling used by WorkerPool.graph() and
+// WorkerPool.pipeline().
+// ============================================================================
+
+import type {
+  GraphNode,
+  GraphStage,
+  GraphSegmentPayload,
+  GraphNodeStatus,
+  GraphResult
+} from './types.js';
+import { DependencyError } from './errors.js';
+
+/**
+ * A chain of nodes that runs as one task on one worker. Only the first node
+ * may have dependencies outside the segment; each later node depends on
+ * exactly the node before it.
+ */
+export interface GraphSegment {
+  nodes: string[];
+  stages: GraphStage[];
+  // Dependencies of the first node.
+  dependsOn: string[];
+  // Whether nobody needs the last node's result.
+  discard: boolean;
+}
+
+/**
+ * A validated graph split into segments.
+ */
+export interface GraphPlan {
+  // Segments in topological order.
+  segments: GraphSegment[];
+  // Node name -> names of the nodes depending on it.
+  dependents: Map<string, string[]>;
+  outputs: Set<string>;
+}
+
+/**
+ * Outcome of a segment: the last node's result, or the node that failed
+ * (the nodes before it succeeded).
+ */
+export type SegmentOutcome =
+  | { ok: true; value: any }
+  | { ok: false; node: string; error: Error };
+
+/**
+ * Runs one segment as a task. Rejects if the task as a whole failed
+ * (crash, timeout, abort...).
+ */
+export type RunSegment = (
+  segment: GraphSegment,
+  payload: GraphSegmentPayload,
+  transferables: Transferable[]
+) => Promise<SegmentOutcome>;
+
+/**
+ * Validates a graph and splits it into segments: a node joins the segment of
+ * its dependency when that is its only dependency, nothing else depends on it
+ * and it isn't an output, so that the result can stay in the worker.
+ *
+ * @param nodes - Node name -> node.
+ * @param outputs - Nodes whose results are returned. Defaults to the nodes nothing depends on.
+ * @throws Error for unknown dependencies or outputs, and for cycles.
+ */
+export function planGraph(nodes: Record<string, GraphNode<any>>, outputs?: string[]): GraphPlan {
+  const names = Object.keys(nodes);
+  if (names.length === 0) {
+    throw new Error('A graph needs at least one node');
+  }
+
+  const dependencies = new Map(names.map(name => [name, [...new Set(nodes[name]!.dependsOn ?? [])]]));
+  const dependents = new Map<string, string[]>(names.map(name => [name, []]));
+  for (const name of names) {
+    for (const dependency of dependencies.get(name)!) {
+      const list = dependents.get(dependency);
+      if (!list) {
+        throw new Error(`Node "${name}" depends on unknown node "${dependency}"`);
+      }
+      list.push(name);
+    }
+  }
+
+  const outputSet = new Set(outputs ?? names.filter(name => dependents.get(name)!.length === 0));
+  for (const output of outputSet) {
+    if (!dependents.has(output)) throw new Error(`Unknown output node "${output}"`);
+  }
+
+  // Kahn's algorithm: order the nodes so that each comes after its dependencies.
+  const pending = new Map(names.map(name => [name, dependencies.get(name)!.length]));
+  const order = names.filter(name => pending.get(name) === 0);
+  for (let i = 0; i < order.length; i++) {
+    for (const dependent of dependents.get(order[i]!)!) {
+      const count = pending.get(dependent)! - 1;
+      pending.set(dependent, count);
+      if (count === 0) order.push(dependent);
+    }
+  }
+  if (order.length < names.length) {
+    const cyclic = names.filter(name => pending.get(name)! > 0);
+    throw new Error(`The graph has a cycle through: ${cyclic.join(', ')}`);
+  }
+
+  const segments: GraphSegment[] = [];
+  const segmentOf = new Map<string, GraphSegment>();
+
+  for (const name of order) {
+    const node = nodes[name]!;
+    const dependsOn = dependencies.get(name)!;
+    const stage: GraphStage = {
+      node: name,
+      taskType: node.task,
+      hasPayload: 'payload' in node,
+      ...('payload' in node && { payload: node.payload })
+    };
+
+    const [dependency] = dependsOn;
+    let segment = dependsOn.length === 1 && dependents.get(dependency!)!.length === 1 && !outputSet.has(dependency!)
+      ? segmentOf.get(dependency!)
+      : undefined;
+
+    if (segment) {
+      segment.nodes.push(name);
+      segment.stages.push(stage);
+    } else {
+      segment = { nodes: [name], stages: [stage], dependsOn, discard: false };
+      segments.push(segment);
+    }
+    segmentOf.set(name, segment);
+  }
+
+  for (const segment of segments) {
+    const last = segment.nodes[segment.nodes.length - 1]!;
+    segment.discard = !outputSet.has(last) && dependents.get(last)!.length === 0;
+  }
+
+  return { segments, dependents, outputs: outputSet };
+}
+
+/**
+ * Collects the ArrayBuffers (including those behind typed arrays) found in a
+ * value, its arrays and its plain objects, so they can be transferred.
+ */
+function collectTransferables(value: unknown, found: Set<ArrayBuffer> = new Set(), seen: Set<unknown> = new Set()): Set<ArrayBuffer> {
+  if (typeof value !== 'object' || value === null || seen.has(value)) return found;
+  seen.add(value);
+
+  if (value instanceof ArrayBuffer) {
+    found.add(value);
+  } else if (ArrayBuffer.isView(value)) {
+    if (value.buffer instanceof ArrayBuffer) found.add(value.buffer);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectTransferables(item, found, seen));
+  } else if (Object.getPrototypeOf(value) === Object.prototype) {
+    Object.values(value).forEach(item => collectTransferables(item, found, seen));
+  }
+  return found;
+}
+
+/**
+ * Runs the segments of a planned graph, each as soon as its dependencies are
+ * done. A failed node cancels everything that depends on it; independent
+ * branches keep running. Never rejects.
+ *
+ * Results are kept only until every dependent segment has started, except for
+ * outputs. A result needed by a single segment and not returned is
+ * transferred to that segment's worker instead of copied.
+ *
+ * @param plan - The planned graph.
+ * @param run - Runs one segment.
+ */
+export function runGraph(plan: GraphPlan, run: RunSegment): Promise<GraphResult> {
+  const { segments, dependents, outputs } = plan;
+  const status: Record<string, GraphNodeStatus> = {};
+  const errors: Record<string, Error> = {};
+  const results: Record<string, any> = {};
+
+  // Results still needed by segments that haven't started, with the number of those segments.
+  const values = new Map<string, any>();
+  const remainingUses = new Map<string, number>();
+  for (const segment of segments) {
+    for (const dependency of segment.dependsOn) {
+      remainingUses.set(dependency, (remainingUses.get(dependency) ?? 0) + 1);
+    }
+  }
+
+  // Marks everything depending on a failed node as cancelled.
+  const cancelDependents = (failed: string, error: Error): void => {
+    const stack = [...dependents.get(failed)!];
+    while (stack.length > 0) {
+      const name = stack.pop()!;
+      if (status[name]) continue;
+      status[name] = 'cancelled';
+      errors[name] = new DependencyError(name, failed, error);
+      stack.push(...dependents.get(name)!);
+    }
+  };
+
+  const fail = (name: string, error: Error): void => {
+    status[name] = 'failed';
+    errors[name] = error;
+    cancelDependents(name, error);
+  };
+
+  return new Promise((resolve) => {
+    const started = new Set<GraphSegment>();
+    let running = 0;
+
+    const settle = (segment: GraphSegment, result: SegmentOutcome): void => {
+      if (result.ok) {
+        segment.nodes.forEach(name => { status[name] = 'done'; });
+        const last = segment.nodes[segment.nodes.length - 1]!;
+        if (outputs.has(last)) results[last] = result.value;
+        if (remainingUses.has(last)) values.set(last, result.value);
+        return;
+      }
+
+      const failedAt = segment.nodes.indexOf(result.node);
+      segment.nodes.slice(0, failedAt).forEach(name => { status[name] = 'done'; });
+      fail(result.node, result.error);
+    };
+
+    const schedule = (): void => {
+      for (const segment of segments) {
+        const head = segment.nodes[0]!;
+        if (started.has(segment) || status[head]) continue;
+        if (!segment.dependsOn.every(dependency => status[dependency] === 'done')) continue;
+
+        started.add(segment);
+        running++;
+
+        const inputs: Record<string, any> = {};
+        const transferables = new Set<ArrayBuffer>();
+        for (const dependency of segment.dependsOn) {
+          inputs[dependency] = values.get(dependency);
+
+          const uses = remainingUses.get(dependency)! - 1;
+          remainingUses.set(dependency, uses);
+          if (uses === 0) {
+            values.delete(dependency);
+            // Nobody else will read it: hand the buffers over instead of copying them.
+            if (!outputs.has(dependency) && dependents.get(dependency)!.length === 1) {
+              collectTransferables(inputs[dependency], transferables);
+            }
+          }
+        }
+
+        const payload: GraphSegmentPayload = { stages: segment.stages, inputs, discard: segment.discard };
+        run(segment, payload, [...transferables])
+          .then(
+            result => settle(segment, result),
+            (error: Error) => fail(head, error)
+          )
+          .finally(() => {
+            running--;
+            schedule();
+          });
+      }
+
+      if (running === 0) {
+        resolve({ ok: Object.keys(errors).length === 0, results, errors, status });
+      }
+    };
+
+    schedule();
+  });
+}
@@ -2,13 +2,88 @@
 import { threadPool } from './ThreadPool.js';
 
 export { threadPool } from './ThreadPool.js';
+export type { ThreadPool } from './ThreadPool.js';
 export { WorkerPool } from './WorkerPool.js';
+export { InlinePool, createInlinePool } from './InlinePool.js';
+export { JobQueue } from './JobQueue.js';
+export { FileJobStore } from './FileJobStore.js';
+export { browserAdapter, nodeAdapter, bunDenoAdapter, wrapWorker } from './adapters.js';
+export type { TaskStream } from './TaskStream.js';
+export { defineWorker, transfer } from './worker.js';
+export {
+  ThreadyTaskError,
+  TaskHandlerError,
+  WorkerCrashError,
+  AbortError,
+  TimeoutError,
+  PoisonTaskError,
+  CircuitOpenError,
+  PoolShutdownError,
+  DependencyError,
+  registerError
+} from './errors.js';
 export type {
   WorkerMessage, 
   WorkerResponse, 
   Task, 
-  WorkerPoolConfig
+  SerializedError,
+  WorkerPoolConfig,
+  MultiPoolConfig,
+  InlinePoolConfig,
+  InlineSimulation,
+  DispatchRecord,
+  JobStatus,
+  JobRecord,
+  JobStore,
+  JobOptions,
+  JobQueueOptions,
+  RunOptions,
+  TaskPriority,
+  LaneConfig,
+  RetryPolicy,
+  QuarantinedTask,
+  ShutdownOptions,
+  MapOptions,
+  StreamOptions,
+  ParallelForOptions,
+  GraphNode,
+  GraphOptions,
+  GraphResult,
+  GraphNodeStatus,
+  TypedArray,
+  BatchItemResult,
+  BatchItemOutcome,
+  WorkerUsage,
+  WorkerResourceLimits,
+  WorkerAdapter,
+  WorkerAdapterOptions,
+  WorkerHandle,
+  WorkerEvent,
+  RecycleStats,
+  WorkerExitReason,
+  PoolEventMap,
+  PoolEventName,
+  PoolEventListener,
+  PoolMetricsSnapshot,
+  TaskTypeMetrics,
+  LatencyMetrics,
+  WorkerMetrics,
+  UntypedTaskMap,
+  TaskName,
+  TaskPayload,
+  TaskArgs,
+  TaskResult,
+  TaskStreamItem,
+  TaskProxy
 } from './types.js';
+export type {
+  TaskContext,
+  TaskHandler,
+  TaskHandlers,
+  DefineWorkerOptions,
+  ParallelPartition,
+  TransferResult
+} from './worker.js';
 
 // Default export for convenience: import thready from 'thready-js'
 export default threadPool;
\ No newline at end of file
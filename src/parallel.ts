@@ -0,0 +1,125 @@
+// ============================================================================
+// PARALLEL HELPERS (main thread)
+// Chunking and bounded concurrency used by WorkerPool.map() / reduce(),
+// and partitioning / shared memory used by WorkerPool.parallelFor().
+// ============================================================================
+
+import type { TypedArray } from './types.js';
+
+/**
+ * Checks whether a value is a typed array (Uint8Array, Float64Array, ...).
+ */
+function isTypedArray(value: unknown): value is ArrayLike<number> & { slice(start: number, end: number): any } {
+  return ArrayBuffer.isView(value) && !(value instanceof DataView);
+}
+
+/**
+ * Copies the items in [start, end) into a payload for one chunk.
+ * Typed arrays are sliced into a new buffer that is transferred to the worker
+ * (zero-copy across the boundary); other array-likes become plain arrays.
+ *
+ * @param items - The full input.
+ * @param start - Index of the first item of the chunk.
+ * @param end - Index after the last item of the chunk.
+ */
+export function sliceChunk(
+  items: ArrayLike<any>,
+  start: number,
+  end: number
+): { payload: any; transferables: Transferable[] } {
+  if (isTypedArray(items)) {
+    const chunk = items.slice(start, end);
+    return { payload: chunk, transferables: [chunk.buffer] };
+  }
+
+  return { payload: Array.prototype.slice.call(items, start, end), transferables: [] };
+}
+
+/**
+ * Splits [0, length) into chunks of chunkSize and runs them with at most
+ * `concurrency` chunks in flight. Chunks are created lazily, so only the
+ * chunks being processed exist at any time.
+ * Rejects with the first error and stops starting new chunks.
+ *
+ * @param length - Number of items.
+ * @param chunkSize - Items per chunk.
+ * @param concurrency - Maximum chunks in flight.
+ * @param run - Processes one chunk, given its index and item range.
+ */
+export async function forEachChunk(
+  length: number,
+  chunkSize: number,
+  concurrency: number,
+  run: (chunkIndex: number, start: number, end: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  let chunkIndex = 0;
+  let failed = false;
+
+  // Each runner keeps taking the next chunk until the input is exhausted.
+  const runner = async (): Promise<void> => {
+    while (!failed && next < length) {
+      const start = next;
+      const end = Math.min(length, start + chunkSize);
+      const index = chunkIndex++;
+      next = end;
+
+      try {
+        await run(index, start, end);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const chunkCount = Math.ceil(length / chunkSize);
+  const runners = Array.from({ length: Math.max(1, Math.min(concurrency, chunkCount)) }, runner);
+  await Promise.all(runners);
+}
+
+/**
+ * Splits [0, length) into `partitions` contiguous ranges whose sizes differ by at most one.
+ * Never returns empty ranges (fewer ranges than requested for short inputs).
+ *
+ * @returns The [start, end) pairs, in order.
+ */
+export function partitionRange(length: number, partitions: number): Array<[number, number]> {
+  const count = Math.max(1, Math.min(partitions, length));
+  const size = Math.floor(length / count);
+  const remainder = length % count;
+
+  const ranges: Array<[number, number]> = [];
+  let start = 0;
+  for (let i = 0; i < count; i++) {
+    const end = start + size + (i < remainder ? 1 : 0);
+    ranges.push([start, end]);
+    start = end;
+  }
+  return ranges;
+}
+
+/**
+ * Checks whether memory can be shared with workers: SharedArrayBuffer must exist
+ * and, in browsers, the page must be cross-origin isolated.
+ */
+export function isSharedMemoryAvailable(): boolean {
+  return typeof SharedArrayBuffer !== 'undefined' && (globalThis as any).crossOriginIsolated !== false;
+}
+
+/**
+ * Checks whether a typed array is backed by a SharedArrayBuffer.
+ */
+export function isShared(array: ArrayBufferView): boolean {
+  return typeof SharedArrayBuffer !== 'undefined' && array.buffer instanceof SharedArrayBuffer;
+}
+
+/**
+ * Copies a typed array into a new array of the same type backed by a SharedArrayBuffer.
+ */
+export function toSharedArray<A extends TypedArray>(array: A): A {
+  const Constructor = array.constructor as new (buffer: SharedArrayBuffer) => A;
+  const shared = new Constructor(new SharedArrayBuffer(array.byteLength));
+  (shared as any).set(array);
+  return shared;
+}
@@ -0,0 +1,405 @@
+// ============================================================================
+// REACT BINDINGS (main thread)
+// ThreadyProvider owns a pool for a component tree; useThreadyTask runs tasks
+// on it from components. Exported as `thready-js/react`.
+// ============================================================================
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type ReactNode
+} from 'react';
+import { ThreadPool } from './ThreadPool.js';
+import type { WorkerPoolConfig, MultiPoolConfig, ShutdownOptions, RunOptions } from './types.js';
+
+export type ThreadyTaskStatus = 'idle' | 'running' | 'success' | 'error';
+
+export interface ThreadyProviderProps {
+  // Configuration of the pool, read once when the provider mounts.
+  config: WorkerPoolConfig | MultiPoolConfig;
+  // Passed to shutdown() on unmount, e.g. `{ drain: true }`. Immediate by default.
+  shutdownOptions?: ShutdownOptions;
+  children?: ReactNode;
+}
+
+export interface UseThreadyTaskOptions<P = any> extends Omit<RunOptions, 'signal' | 'onProgress' | 'transferables'> {
+  // Runs the task automatically with this payload, and again (cancelling the
+  // previous run) whenever it changes. Compared by identity: memoize objects
+  // or pass a `key`.
+  payload?: P;
+  // Identifies the payload instead of the payload itself. Required with
+  // `suspense` when the payload isn't JSON-serializable.
+  key?: string | number;
+  // Suspends the component until the result for `payload` is available and
+  // throws task errors to the nearest error boundary.
+  suspense?: boolean;
+}
+
+export interface ThreadyTask<R = any, P = any> {
+  // Runs the task, cancelling the previous run of this hook. Resolves with the
+  // result, or with undefined if the run failed or was cancelled (see `error`).
+  run: (payload: P, options?: RunOptions) => Promise<R | undefined>;
+  // Result of the latest successful run.
+  data: R | undefined;
+  // Error of the latest run, if it failed.
+  error: Error | undefined;
+  status: ThreadyTaskStatus;
+  // Latest value reported by the running task through `reportProgress`.
+  progress: any;
+  // Cancels the running task, if any.
+  cancel: () => void;
+}
+
+interface TaskState {
+  status: ThreadyTaskStatus;
+  data: any;
+  error: Error | undefined;
+  progress: any;
+}
+
+// A result fetched for a suspended component.
+interface SuspenseEntry {
+  promise: Promise<void>;
+  status: 'pending' | 'success' | 'error';
+  value?: any;
+  error?: Error;
+  // Cancels the task once no mounted component waits for it anymore.
+  controller: AbortController;
+  // Components waiting for the entry (see claimSuspense()).
+  waiting: number;
+}
+
+// The suspense entry a component is waiting for.
+interface SuspenseClaim {
+  pool: ThreadPool<any>;
+  cacheKey: string;
+  entry: SuspenseEntry;
+}
+
+const ThreadyContext = createContext<ThreadPool<any> | null>(null);
+
+// Shutdowns of unmounted providers, cancelled if the provider mounts again
+// right away (StrictMode mounts every component twice in development).
+const pendingShutdowns = new WeakMap<ThreadPool<any>, ReturnType<typeof setTimeout>>();
+
+// Results of suspending renders, keyed by pool, task type and payload. A
+// result is dropped once a component has committed it, or after
+// SUSPENSE_RETENTION_MS if no component claims it (e.g. the component
+// was unmounted while it was suspended); an error once it has been thrown.
+// A pending entry is cancelled and dropped when the components waiting for it
+// move to another payload or unmount.
+const suspenseCache = new WeakMap<ThreadPool<any>, Map<string, SuspenseEntry>>();
+const SUSPENSE_RETENTION_MS = 30000;
+
+const IDLE_STATE: TaskState = { status: 'idle', data: undefined, error: undefined, progress: undefined };
+
+/**
+ * Provides a thread pool to the components below it. The pool is created and
+ * initialized when the provider mounts, and shut down when it unmounts; the
+ * children render once the pool exists (so not during server rendering).
+ *
+ * @example
+ * <ThreadyProvider config={{ worker: () => new Worker(workerUrl, { type: 'module' }) }}>
+ *   <App />
+ * </ThreadyProvider>
+ */
+export function ThreadyProvider({ config, shutdownOptions, children }: ThreadyProviderProps) {
+  const [pool, setPool] = useState<ThreadPool<any> | null>(null);
+  const poolRef = useRef<ThreadPool<any> | null>(null);
+
+  const shutdownRef = useRef(shutdownOptions);
+  shutdownRef.current = shutdownOptions;
+
+  useEffect(() => {
+    // Created here rather than during render: a render React discards would leak its workers.
+    let current = poolRef.current;
+    if (current && pendingShutdowns.has(current)) {
+      clearTimeout(pendingShutdowns.get(current));
+      pendingShutdowns.delete(current);
+    } else {
+      current = new ThreadPool();
+      current.init(config);
+      poolRef.current = current;
+    }
+    setPool(current);
+
+    const mounted = current;
+    return () => {
+      // Deferred, so that an immediate remount (StrictMode) keeps the pool.
+      pendingShutdowns.set(mounted, setTimeout(() => {
+        pendingShutdowns.delete(mounted);
+        suspenseCache.delete(mounted);
+        void mounted.shutdown(shutdownRef.current);
+      }, 0));
+    };
+    // The config is only read on mount.
+  }, []);
+
+  if (!pool) return null;
+  return <ThreadyContext.Provider value={pool}>{children}</ThreadyContext.Provider>;
+}
+
+/**
+ * Returns the pool of the nearest ThreadyProvider, for APIs not covered by
+ * the hooks (map, graph, stream, getStats...).
+ *
+ * @throws Error if there is no ThreadyProvider above the component.
+ */
+export function useThreadPool<M = any>(): ThreadPool<M> {
+  const pool = useContext(ThreadyContext);
+  if (!pool) {
+    throw new Error('useThreadPool() and useThreadyTask() must be used inside a <ThreadyProvider>');
+  }
+  return pool;
+}
+
+/**
+ * Runs a task from a component and tracks its state. Starting a new run
+ * cancels the previous one, and unmounting cancels the running one; results
+ * of cancelled runs are ignored.
+ *
+ * Call `run(payload)` from event handlers, or pass `payload` to run the task
+ * whenever the payload changes. With `suspense: true` the component suspends
+ * until the result for `payload` is available.
+ *
+ * @param taskType - The task to run.
+ * @param options - Automatic payload, Suspense mode and defaults for every run
+ *                  (timeoutMs, priority, lane, pool...).
+ *
+ * @template R - The result type of the task.
+ * @template P - The payload type of the task.
+ *
+ * @example
+ * const { run, data, status, progress, cancel } = useThreadyTask<number, number>('fibonacci');
+ * <button onClick={() => run(40)}>Calculate</button>
+ */
+export function useThreadyTask<R = any, P = any>(
+  taskType: string,
+  options?: UseThreadyTaskOptions<P>
+): ThreadyTask<R, P> {
+  const pool = useThreadPool();
+  const [state, setState] = useState<TaskState>(IDLE_STATE);
+
+  // Controller of the running task; replaced by every run.
+  const controllerRef = useRef<AbortController | null>(null);
+  const mountedRef = useRef(false);
+  // Suspense entry this component waits for until it commits the result.
+  const claimRef = useRef<SuspenseClaim | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      const controller = controllerRef.current;
+      controllerRef.current = null;
+      controller?.abort();
+      releaseSuspense(claimRef);
+    };
+  }, []);
+
+  const run = useCallback(async (payload: P, runOptions: RunOptions = {}): Promise<R | undefined> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    // A signal passed to this run cancels it too.
+    const { signal, onProgress, ...rest } = runOptions;
+    if (signal?.aborted) controller.abort(signal.reason);
+    signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+
+    // Only the current run of a mounted component updates the state.
+    const update = (next: Partial<TaskState>): void => {
+      if (mountedRef.current && controllerRef.current === controller) {
+        setState(previous => ({ ...previous, ...next }));
+      }
+    };
+
+    const { payload: _payload, key: _key, suspense: _suspense, ...defaults } = optionsRef.current ?? {};
+    update({ status: 'running', error: undefined, progress: undefined });
+
+    try {
+      const result = await pool.execute(taskType, payload, {
+        ...defaults,
+        ...rest,
+        signal: controller.signal,
+        onProgress: (value: any) => {
+          update({ progress: value });
+          onProgress?.(value);
+        }
+      }) as R;
+      update({ status: 'success', data: result });
+      return result;
+    } catch (error) {
+      if (!controller.signal.aborted) update({ status: 'error', error: error as Error });
+      return undefined;
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  }, [pool, taskType]);
+
+  const cancel = useCallback((): void => {
+    const controller = controllerRef.current;
+    if (!controller) return;
+
+    controllerRef.current = null;
+    controller.abort();
+    if (mountedRef.current) {
+      setState(previous => ({ ...previous, status: previous.status === 'running' ? 'idle' : previous.status, progress: undefined }));
+    }
+  }, []);
+
+  const hasPayload = options !== undefined && 'payload' in options;
+  const suspense = hasPayload && options.suspense === true;
+  const inputKey = options?.key ?? options?.payload;
+
+  // Automatic runs: again whenever the payload changes; run() cancels the stale one.
+  useEffect(() => {
+    if (!hasPayload || suspense) return;
+    void run(optionsRef.current!.payload as P);
+  }, [hasPayload, suspense, run, inputKey]);
+
+  // Suspense: the result for the current payload, kept here once committed.
+  const committedRef = useRef<{ cacheKey: string; value: any } | null>(null);
+  const cacheKey = suspense ? suspenseKey(taskType, options) : null;
+
+  let suspended: { value: any } | null = null;
+  if (cacheKey !== null && committedRef.current?.cacheKey === cacheKey) {
+    releaseSuspense(claimRef);
+    suspended = { value: committedRef.current.value };
+  } else if (cacheKey !== null) {
+    const entry = readSuspense(pool, cacheKey, (signal) => {
+      const { payload, key: _key, suspense: _suspense, ...defaults } = options!;
+      return pool.execute(taskType, payload, { ...defaults, signal });
+    });
+    claimSuspense(claimRef, { pool, cacheKey, entry });
+
+    if (entry.status === 'pending') throw entry.promise;
+    if (entry.status === 'error') {
+      // Thrown once: a render after an error boundary reset runs the task again.
+      dropSuspense(pool, cacheKey, entry, 0);
+      throw entry.error;
+    }
+    suspended = { value: entry.value };
+  } else {
+    // Suspense was turned off: stop waiting for the previous payload.
+    releaseSuspense(claimRef);
+  }
+
+  useEffect(() => {
+    if (cacheKey === null || committedRef.current?.cacheKey === cacheKey) return;
+    committedRef.current = { cacheKey, value: suspended!.value };
+    releaseSuspense(claimRef);
+    suspenseCache.get(pool)?.delete(cacheKey);
+  });
+
+  // Once run() was called, its state replaces the suspended result.
+  if (suspended && state.status === 'idle') {
+    return { run, cancel, status: 'success', data: suspended.value, error: undefined, progress: undefined };
+  }
+  return { run, cancel, ...state };
+}
+
+/**
+ * Key of a suspending render's result in the suspense cache.
+ */
+function suspenseKey(taskType: string, options: UseThreadyTaskOptions<any>): string {
+  let input: string;
+  if (options.key !== undefined) {
+    input = `key:${options.key}`;
+  } else {
+    try {
+      input = `json:${JSON.stringify(options.payload)}`;
+    } catch {
+      throw new Error(`useThreadyTask("${taskType}") needs a \`key\` with suspense: the payload isn't JSON-serializable`);
+    }
+  }
+  return `${options.pool ?? ''}\u0000${taskType}\u0000${input}`;
+}
+
+/**
+ * Returns the cached result for a key, starting the task if there is none.
+ */
+function readSuspense(
+  pool: ThreadPool<any>,
+  cacheKey: string,
+  start: (signal: AbortSignal) => Promise<any>
+): SuspenseEntry {
+  let cache = suspenseCache.get(pool);
+  if (!cache) {
+    cache = new Map();
+    suspenseCache.set(pool, cache);
+  }
+
+  let entry = cache.get(cacheKey);
+  if (entry) return entry;
+
+  const controller = new AbortController();
+  const created: SuspenseEntry = { status: 'pending', promise: Promise.resolve(), controller, waiting: 0 };
+  created.promise = start(controller.signal)
+    .then(
+      (value) => {
+        created.status = 'success';
+        created.value = value;
+      },
+      (error: Error) => {
+        created.status = 'error';
+        created.error = error;
+      }
+    )
+    .finally(() => {
+      // Drop results nobody claimed. Errors are dropped when they are thrown.
+      if (created.status === 'success') dropSuspense(pool, cacheKey, created, SUSPENSE_RETENTION_MS);
+    });
+
+  entry = created;
+  cache.set(cacheKey, entry);
+  return entry;
+}
+
+/**
+ * Removes an entry from the suspense cache after a delay, unless it was
+ * replaced in the meantime. A delay of 0 still keeps the entry for the rest of
+ * the current task, so that React's immediate retry of a failed render finds it.
+ */
+function dropSuspense(pool: ThreadPool<any>, cacheKey: string, entry: SuspenseEntry, delayMs: number): void {
+  setTimeout(() => {
+    const cache = suspenseCache.get(pool);
+    if (cache?.get(cacheKey) === entry) cache.delete(cacheKey);
+  }, delayMs);
+}
+
+/**
+ * Records that a component waits for an entry, releasing the entry it waited
+ * for before (its payload changed).
+ */
+function claimSuspense(claimRef: { current: SuspenseClaim | null }, claim: SuspenseClaim): void {
+  if (claimRef.current?.entry === claim.entry) return;
+  releaseSuspense(claimRef);
+  claim.entry.waiting++;
+  claimRef.current = claim;
+}
+
+/**
+ * Stops a component waiting for its entry. A pending entry nobody waits for
+ * anymore is cancelled and dropped, so that a later render starts it afresh.
+ * Renders React discards without committing never release their entry, which
+ * then simply runs to completion.
+ */
+function releaseSuspense(claimRef: { current: SuspenseClaim | null }): void {
+  const claim = claimRef.current;
+  if (!claim) return;
+  claimRef.current = null;
+
+  const { pool, cacheKey, entry } = claim;
+  if (--entry.waiting > 0 || entry.status !== 'pending') return;
+
+  entry.controller.abort();
+  const cache = suspenseCache.get(pool);
+  if (cache?.get(cacheKey) === entry) cache.delete(cacheKey);
+}
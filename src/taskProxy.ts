@@ -0,0 +1,28 @@
+import type { RunOptions, TaskProxy } from './types.js';
+
+/**
+ * Builds the proxy behind `pool.tasks`: every property access returns a
+ * function that runs the task of the same name, e.g. `tasks.fibonacci(30)`.
+ *
+ * @param run - Untyped function that submits a task to the pool.
+ */
+export function createTaskProxy<M>(
+  run: (taskType: string, payload: any, options?: Transferable[] | RunOptions) => Promise<any>
+): TaskProxy<M> {
+  // Cache the generated methods so repeated access returns the same function.
+  const methods = new Map<string, Function>();
+
+  return new Proxy({} as TaskProxy<M>, {
+    get: (_target, property) => {
+      // Symbols and 'then' are never task names (keeps the proxy from looking like a thenable).
+      if (typeof property !== 'string' || property === 'then') return undefined;
+
+      let method = methods.get(property);
+      if (!method) {
+        method = (payload: any, options?: Transferable[] | RunOptions) => run(property, payload, options);
+        methods.set(property, method);
+      }
+      return method;
+    }
+  });
+}
@@ -1,15 +1,470 @@
+import type { TransferResult } from './worker.js';
+
 export interface WorkerMessage {
   id: string;
-  type: 'task' | 'init' | 'terminate';
+  type: 'task' | 'init' | 'terminate' | 'cancel' | 'credit';
   payload: any;
   taskType?: string;
+  // When set, payload is an array of items and the handler runs once per item (see pool.map()).
+  batch?: boolean;
+  // When set, the handler's result is iterated and sent as 'chunk' messages (see pool.stream()).
+  // The value is the initial number of chunks the worker may send before waiting for 'credit'.
+  streamCredit?: number;
+  // When set, payload describes one partition of a parallelFor() (see ParallelPartition).
+  parallel?: boolean;
+  // When set, payload is a GraphSegmentPayload: a chain of graph nodes run one after another.
+  graph?: boolean;
 }
 
 export interface WorkerResponse {
   id: string;
-  type: 'result' | 'error' | 'progress';
+  // 'chunk' carries one item of a streamed result; the final 'result' ends the stream.
+  // 'ready' answers the 'init' handshake (an 'error' answer means initialization failed).
+  type: 'result' | 'error' | 'progress' | 'chunk' | 'ready';
+  payload: any;
+  // Structured form of the error for 'error' responses. Hand-written workers may
+  // omit it and send only the message as `payload`.
+  error?: SerializedError;
+  // Resource usage of the worker, attached to 'result' and 'error' responses by defineWorker().
+  usage?: WorkerUsage;
+}
+
+/**
+ * Resource usage a worker reports after each task.
+ */
+export interface WorkerUsage {
+  // Bytes of JS heap in use.
+  heapUsed: number;
+  // Fraction of time (0-1) the worker's event loop was busy since it started (Node.js only).
+  eventLoopUtilization?: number;
+}
+
+/**
+ * Resource limits of Node.js worker threads (mirrors worker_threads' `resourceLimits`).
+ */
+export interface WorkerResourceLimits {
+  maxOldGenerationSizeMb?: number;
+  maxYoungGenerationSizeMb?: number;
+  codeRangeSizeMb?: number;
+  stackSizeMb?: number;
+}
+
+/**
+ * Event emitted by a worker, normalized across runtimes:
+ * - message: a response from the worker
+ * - error: an uncaught error killed the worker (or it couldn't be started)
+ * - messageerror: a message between the pool and the worker couldn't be cloned
+ * - exit: the worker stopped on its own (never emitted after terminate())
+ */
+export type WorkerEvent =
+  | { type: 'message'; data: WorkerResponse }
+  | { type: 'error'; error: Error }
+  | { type: 'messageerror'; error: Error }
+  | { type: 'exit'; code: number };
+
+/**
+ * A worker as seen by the pool, independent of the runtime it runs in.
+ */
+export interface WorkerHandle {
+  send(message: WorkerMessage, transferables?: Transferable[]): void;
+  // Registers the pool's listener. Called once, right after the worker is created.
+  listen(listener: (event: WorkerEvent) => void): void;
+  terminate(): void;
+}
+
+/**
+ * Options passed to WorkerAdapter.create().
+ */
+export interface WorkerAdapterOptions {
+  // Applied where the runtime supports them (Node.js worker_threads).
+  resourceLimits?: WorkerResourceLimits;
+}
+
+/**
+ * Creates workers from a script path or URL in a specific runtime.
+ * Thready ships adapters for browsers, Node.js and Bun/Deno; pass your own
+ * with the `adapter` option for other environments.
+ */
+export interface WorkerAdapter {
+  // Shown in error messages.
+  name: string;
+  create(script: string | URL, options: WorkerAdapterOptions): WorkerHandle;
+}
+
+/**
+ * Number of workers retired by the pool, per reason.
+ */
+export interface RecycleStats {
+  // Reached maxTasksPerWorker.
+  tasks: number;
+  // Reached maxWorkerLifetimeMs.
+  lifetime: number;
+  // Reported a heap above maxWorkerHeapMb.
+  memory: number;
+}
+
+/**
+ * Outcome of one item of a batch task.
+ */
+export type BatchItemResult =
+  | { ok: true; value: any }
+  | { ok: false; error: SerializedError };
+
+/**
+ * Outcome of one item of a batch task on the main thread, with the error
+ * rebuilt from its serialized form.
+ */
+export type BatchItemOutcome =
+  | { ok: true; value: any }
+  | { ok: false; error: Error };
+
+/**
+ * One node of a graph segment, as sent to the worker.
+ */
+export interface GraphStage {
+  node: string;
+  taskType: string;
+  // Whether the node has its own payload (otherwise it receives its dependencies' results).
+  hasPayload: boolean;
+  payload?: any;
+}
+
+/**
+ * Payload of a graph task: consecutive nodes that run on the same worker, the
+ * results of the first node's dependencies, and whether the caller needs the
+ * last node's result.
+ */
+export interface GraphSegmentPayload {
+  stages: GraphStage[];
+  inputs: Record<string, any>;
+  discard: boolean;
+}
+
+/**
+ * Outcome of a graph task. On failure, `node` is the node whose handler threw;
+ * the nodes before it in the segment succeeded.
+ */
+export type GraphSegmentResult =
+  | { ok: true; value: any }
+  | { ok: false; node: string; error: SerializedError };
+
+/**
+ * An error converted to a structured-clone friendly object so that it can
+ * cross the worker boundary without losing information.
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  // Custom own properties of the error, such as `code`.
+  props?: Record<string, any>;
+  cause?: SerializedError;
+}
+/**
+ * Scheduling priority of a task. Higher priorities are dequeued first.
+ */
+export type TaskPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Configuration of a named scheduling lane.
+ */
+export interface LaneConfig {
+  /**
+   * Relative share of workers this lane receives when several lanes have queued work.
+   * Defaults to 1.
+   */
+  weight?: number;
+}
+
+/**
+ * Retry policy for a task whose attempt failed.
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of additional attempts after the first one.
+   */
+  retries: number;
+
+  /**
+   * Delay before the first retry in ms. Defaults to 100.
+   */
+  backoffMs?: number;
+
+  /**
+   * Multiplier applied to the delay after every retry. Defaults to 2.
+   */
+  backoffFactor?: number;
+
+  /**
+   * Upper bound for the delay between retries in ms. Defaults to 30000.
+   */
+  maxBackoffMs?: number;
+
+  /**
+   * Decides whether a failed attempt should be retried.
+   * Defaults to retrying only worker crashes (WorkerCrashError), not errors thrown by handlers.
+   *
+   * @param error - The error of the failed attempt.
+   * @param attempt - The number of the retry that would follow (1 for the first retry).
+   */
+  retryIf?: (error: Error, attempt: number) => boolean;
+}
+
+/**
+ * Options for WorkerPool.map() / WorkerPool.reduce().
+ * Scheduling options (signal, timeoutMs, priority, lane, retry) apply to every chunk.
+ */
+export interface MapOptions extends Omit<RunOptions, 'transferables' | 'onProgress'> {
+  /**
+   * Number of items sent to a worker in one message.
+   * Defaults to splitting the input into about 4 chunks per worker.
+   */
+  chunkSize?: number;
+
+  /**
+   * Maximum number of chunks in flight at the same time. Defaults to maxWorkers.
+   */
+  concurrency?: number;
+
+  /**
+   * 'fail-fast' (default) rejects on the first error and stops dispatching chunks.
+   * 'settle' waits for every item and resolves with one PromiseSettledResult per item.
+   * Only map() supports 'settle'.
+   */
+  errors?: 'fail-fast' | 'settle';
+}
+
+/**
+ * Any typed array that can be backed by a (Shared)ArrayBuffer.
+ */
+export type TypedArray =
+  | Int8Array | Uint8Array | Uint8ClampedArray
+  | Int16Array | Uint16Array
+  | Int32Array | Uint32Array
+  | Float32Array | Float64Array
+  | BigInt64Array | BigUint64Array;
+
+/**
+ * Options for WorkerPool.parallelFor().
+ * Scheduling options (signal, timeoutMs, priority, lane, retry) apply to every partition.
+ */
+export interface ParallelForOptions extends Omit<RunOptions, 'transferables' | 'onProgress' | 'affinityKey'> {
+  /**
+   * Number of index ranges the array is split into (one task each). Defaults to maxWorkers.
+   */
+  partitions?: number;
+
+  /**
+   * Called with the number of items processed so far (as reported by the
+   * handlers through `partition.progress()`) and the array length.
+   */
+  onProgress?: (completed: number, total: number) => void;
+
+  /**
+   * How often (in ms) the shared progress counter is read for onProgress. Defaults to 100.
+   */
+  progressIntervalMs?: number;
+
+  /**
+   * What to do when SharedArrayBuffer is unavailable (e.g. browsers without
+   * cross-origin isolation): 'transfer' (default) sends each partition as a
+   * transferred copy and copies the results back; 'error' rejects instead.
+   */
+  fallback?: 'transfer' | 'error';
+}
+
+/**
+ * Options for WorkerPool.stream(). Retries are not supported for streams,
+ * since a retried attempt would repeat chunks that were already delivered.
+ */
+export interface StreamOptions extends Omit<RunOptions, 'retry'> {
+  /**
+   * Maximum number of chunks buffered on the main thread before the worker
+   * pauses and waits for the consumer to catch up. Defaults to 16.
+   */
+  highWaterMark?: number;
+}
+
+/**
+ * A node of a task graph (see WorkerPool.graph()).
+ */
+export interface GraphNode<M = UntypedTaskMap> {
+  // The task to run.
+  task: TaskName<M>;
+
+  /**
+   * The task's payload. Without one, the task receives the result of its
+   * dependency, or, with several dependencies, an object of their results
+   * keyed by node name. Handlers can always read the latter as `context.inputs`.
+   */
+  payload?: any;
+
+  // Names of the nodes whose results this node needs.
+  dependsOn?: string[];
+}
+
+/**
+ * Options for WorkerPool.graph() / WorkerPool.pipeline().
+ * Scheduling options (signal, timeoutMs, priority, lane, retry) apply to every
+ * task the graph is split into.
+ */
+export interface GraphOptions extends Omit<RunOptions, 'transferables' | 'onProgress' | 'affinityKey'> {
+  /**
+   * Nodes whose results are returned. Defaults to the nodes nothing depends on.
+   * Results of other nodes are only kept as long as a dependent node needs them.
+   */
+  outputs?: string[];
+}
+
+/**
+ * Final state of a graph node: 'failed' if its task failed, 'cancelled' if it
+ * didn't run because a dependency failed.
+ */
+export type GraphNodeStatus = 'done' | 'failed' | 'cancelled';
+
+/**
+ * Outcome of WorkerPool.graph().
+ */
+export interface GraphResult {
+  // Whether every node succeeded.
+  ok: boolean;
+  // Results of the successful output nodes, keyed by node name.
+  results: Record<string, any>;
+  // Errors of the failed and cancelled nodes, keyed by node name.
+  errors: Record<string, Error>;
+  // State of every node.
+  status: Record<string, GraphNodeStatus>;
+}
+
+/**
+ * Why a worker left the pool.
+ * - crash: it died (error, unexpected exit, unreadable message)
+ * - cancel: it was terminated to stop a cancelled or timed-out task
+ * - init: its initialization failed or timed out
+ * - recycle: it reached maxTasksPerWorker, maxWorkerLifetimeMs or maxWorkerHeapMb
+ * - idle: it was idle for idleTimeoutMs
+ * - resize: the pool was shrunk
+ * - shutdown: the pool was shut down
+ */
+export type WorkerExitReason = 'crash' | 'cancel' | 'init' | 'recycle' | 'idle' | 'resize' | 'shutdown';
+
+/**
+ * Events emitted by a pool (see WorkerPool.on()), mapped to their payloads.
+ * Times are in milliseconds; workers are identified by a number unique within the pool.
+ */
+export interface PoolEventMap {
+  // A task (or a retry of it) entered the queue.
+  taskQueued: { taskId: string; taskType: string; attempt: number; queuedTasks: number };
+  // An attempt of a task was sent to a worker.
+  taskStart: { taskId: string; taskType: string; attempt: number; workerId: number; waitMs: number };
+  // A task completed successfully.
+  taskEnd: { taskId: string; taskType: string; workerId: number; waitMs: number; durationMs: number };
+  // A task failed for good (after any retries), was cancelled, timed out or was rejected by a shutdown.
+  // workerId and durationMs are missing if it never ran.
+  taskError: { taskId: string; taskType: string; error: Error; attempts: number; workerId?: number; durationMs?: number };
+  workerSpawn: { workerId: number };
+  workerExit: { workerId: number; reason: WorkerExitReason; uptimeMs: number; tasks: number };
+}
+
+export type PoolEventName = keyof PoolEventMap;
+
+export type PoolEventListener<E extends PoolEventName> = (event: PoolEventMap[E]) => void;
+
+/**
+ * Latency of a task type. Counts, sums and buckets cover the whole life of
+ * the pool (they feed the Prometheus histograms); mean, max and percentiles
+ * cover the rolling window only. Values in milliseconds, null without samples.
+ */
+export interface LatencyMetrics {
+  count: number;
+  sumMs: number;
+  // Cumulative count per upper bound of PoolMetricsSnapshot.latencyBucketsMs, plus +Inf last.
+  buckets: number[];
+  mean: number | null;
+  max: number | null;
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+/**
+ * Metrics of one task type.
+ */
+export interface TaskTypeMetrics {
+  // Since the pool started.
+  completed: number;
+  failed: number;
+  // Completed tasks per second over the rolling window.
+  throughput: number;
+  // Time from entering the queue to starting on a worker (per attempt).
+  wait: LatencyMetrics;
+  // Time from starting on a worker to settling (last attempt).
+  duration: LatencyMetrics;
+}
+
+/**
+ * Metrics of one live worker.
+ */
+export interface WorkerMetrics {
+  workerId: number;
+  busy: boolean;
+  tasks: number;
+  uptimeMs: number;
+  // Fraction of its uptime (0-1) the worker spent running tasks.
+  utilization: number;
+}
+
+/**
+ * Snapshot returned by WorkerPool.getMetrics().
+ */
+export interface PoolMetricsSnapshot {
+  // When the snapshot was taken (Date.now()).
+  timestamp: number;
+  windowMs: number;
+  latencyBucketsMs: number[];
+  // Completed tasks per second over the rolling window, all task types.
+  throughput: number;
+  taskTypes: Record<string, TaskTypeMetrics>;
+  workers: WorkerMetrics[];
+  workersSpawned: number;
+  workerExits: Record<WorkerExitReason, number>;
+  // Workers lost involuntarily: exits for 'crash', 'cancel' or 'init' (recycling is deliberate).
+  restarts: number;
+  queuedTasks: number;
+  activeTasks: number;
+}
+
+/**
+ * Options for WorkerPool.shutdown() / threadPool.shutdown().
+ */
+export interface ShutdownOptions {
+  /**
+   * Also run the tasks that are still queued before shutting down.
+   * When false (the default), queued tasks are rejected right away and only
+   * tasks already running on a worker are allowed to finish.
+   */
+  drain?: boolean;
+
+  /**
+   * Deadline (in ms) for the shutdown. Tasks still pending when it expires are
+   * rejected with a PoolShutdownError and the workers are terminated.
+   * Defaults to waiting indefinitely.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * A task that crashed too many workers and was taken out of rotation.
+ */
+export interface QuarantinedTask {
+  id: string;
+  taskType: string;
   payload: any;
+  crashes: number;
+  error: Error;
 }
+
 export interface Task<T = any> {
   id: string;
   type: string;
@@ -17,6 +472,82 @@ export interface Task<T = any> {
   resolve: (value: T) => void;
   reject: (error: Error) => void;
   transferables?: Transferable[] | undefined;
+  onProgress?: ((progress: any) => void) | undefined;
+  timeoutMs?: number | undefined;
+  timer?: ReturnType<typeof setTimeout> | undefined;
+  priority?: TaskPriority | undefined;
+  lane?: string | undefined;
+  retry?: RetryPolicy | undefined;
+  attempts?: number | undefined;
+  // Payload fingerprint, identifying the payload across submissions (computed on first use).
+  poisonKey?: string | undefined;
+  retryTimer?: ReturnType<typeof setTimeout> | undefined;
+  batch?: boolean | undefined;
+  streamCredit?: number | undefined;
+  parallel?: boolean | undefined;
+  graph?: boolean | undefined;
+  affinityKey?: string | undefined;
+  onChunk?: ((chunk: any) => void) | undefined;
+  queuedAt?: number | undefined;
+  startedAt?: number | undefined;
+  workerId?: number | undefined;
+}
+
+/**
+ * Per-call options for WorkerPool.run() / threadPool.execute().
+ */
+export interface RunOptions {
+  /**
+   * Objects to transfer ownership of (e.g. ArrayBuffers) instead of copying.
+   */
+  transferables?: Transferable[];
+
+  /**
+   * Called with every value the worker reports via `context.reportProgress()`.
+   * Progress is delivered in order and stops once the task resolves or rejects.
+   */
+  onProgress?: (progress: any) => void;
+
+  /**
+   * Cancels the task when aborted. A queued task is removed from the queue;
+   * a running task is rejected with an AbortError and its worker is replaced.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Maximum time (in ms) the task may run on a worker once dispatched.
+   * When exceeded, the task is rejected with a TimeoutError and its worker is replaced.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Scheduling priority within the task's lane. Defaults to 'normal'.
+   */
+  priority?: TaskPriority;
+
+  /**
+   * Named lane to queue the task in. Lanes share workers according to their
+   * configured weight. Defaults to 'default'.
+   */
+  lane?: string;
+
+  /**
+   * Routes tasks with the same key to the same worker (consistent hashing), so
+   * per-worker caches such as a parsed model or a tenant's dataset stay warm.
+   * What happens while that worker is busy depends on the pool's `affinityPolicy`.
+   */
+  affinityKey?: string;
+
+  /**
+   * Retry policy for this task. Overrides the pool's default `retry` policy.
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Name of the pool to run the task on, for a ThreadPool holding several pools.
+   * Defaults to the default pool. Ignored by WorkerPool.
+   */
+  pool?: string;
 }
 
 /**
@@ -31,16 +562,406 @@ export interface WorkerPoolConfig {
    * Defaults to navigator.hardwareConcurrency (CPU cores) or 4.
    */
   maxWorkers?: number;
+
+  /**
+   * Number of workers created up front and kept alive even when idle.
+   * Additional workers (up to maxWorkers) are spawned only when tasks are queued.
+   * Defaults to 0 (fully lazy).
+   */
+  minWorkers?: number;
+
+  /**
+   * Terminates workers that have been idle for this many milliseconds,
+   * as long as the pool stays at or above minWorkers.
+   * Defaults to 0 (idle workers are never terminated).
+   */
+  idleTimeoutMs?: number;
+
+  /**
+   * Maximum number of tasks a worker runs at the same time. Values above 1 suit
+   * async handlers that mostly wait (fetch, file I/O, async WASM imports): the
+   * worker starts further tasks while earlier ones are awaiting. Tasks go to
+   * the least-loaded worker, and new workers (up to maxWorkers) are started
+   * before busy ones take a second task.
+   * When a worker crashes, all of its tasks fail. A worker still running
+   * other tasks is not terminated right away to stop a cancelled task: the task
+   * keeps its slot until the handler returns, and the worker is terminated (failing
+   * its other tasks) if that takes longer than cancelGracePeriodMs, or 1 second
+   * when that is 0.
+   * Defaults to 1.
+   */
+  concurrencyPerWorker?: number;
   
   /**
    * YOUR worker implementation - either:
-   * - A string path to your worker script file
+   * - A path or URL of your worker script file (created by the runtime adapter)
    * - A factory function that returns a Worker instance
    * 
    * Examples:
    * - Path: './my-worker.js'
+   * - URL: new URL('./my-worker.mjs', import.meta.url)
    * - Vite: () => new Worker(new URL('./worker.js', import.meta.url), { type: 'module' })
    * - Webpack: () => new Worker(new URL('./worker.js', import.meta.url))
+   *
+   * May be omitted for pools that only use runFunction().
+   */
+  worker?: string | URL | (() => Worker);
+
+  /**
+   * Creates workers from a `worker` path or URL. Detected from the runtime by
+   * default: Web Workers in browsers, worker_threads in Node.js, and module
+   * Web Workers in Bun and Deno. Factories bypass the adapter.
+   */
+  adapter?: WorkerAdapter;
+
+  /**
+   * Enables cooperative cancellation. When a running task is aborted or times out,
+   * the worker is first sent a 'cancel' message (exposed to handlers as
+   * `context.signal`) and only force-terminated if it hasn't finished the task
+   * within this many milliseconds (together with any other task it is running).
+   * Defaults to 0 (terminate immediately, or after 1 second when the worker runs
+   * other tasks too).
+   */
+  cancelGracePeriodMs?: number;
+
+  /**
+   * Named scheduling lanes and their weights. Lanes used in run() but not listed
+   * here are created on demand with weight 1, and dropped again once empty.
+   *
+   * Example: { interactive: { weight: 4 }, background: { weight: 1 } }
+   */
+  lanes?: Record<string, LaneConfig>;
+
+  /**
+   * How long (in ms) a queued task must wait to gain one priority level, so that
+   * low-priority work still makes progress under a steady stream of high-priority tasks.
+   * Set to 0 for strict priorities. Defaults to 10000.
+   */
+  priorityAgingMs?: number;
+
+  /**
+   * Default retry policy for all tasks. Can be overridden per task in run().
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Number of consecutive worker startup failures (workers that crash before
+   * ever responding) after which the pool stops respawning workers and rejects
+   * queued tasks with a CircuitOpenError. Defaults to 5.
+   */
+  maxStartupFailures?: number;
+
+  /**
+   * How long (in ms) the pool waits after giving up before trying to start a
+   * worker again. Defaults to 30000. Set to 0 to never retry.
+   */
+  circuitResetMs?: number;
+
+  /**
+   * Number of workers a payload may crash in a row before it is quarantined
+   * (rejected with a PoisonTaskError instead of being retried). Crashes are
+   * counted per task type and payload, across retries and resubmissions, until
+   * the payload completes. Only a task running alone on the worker that died is
+   * blamed. Defaults to 3. Set to 0 to disable poison-task detection.
+   */
+  poisonTaskThreshold?: number;
+
+  /**
+   * Whether runFunction() may send function source to generic workers and
+   * evaluate it there. Set to false in deployments where evaluating code
+   * (`eval`, Blob URL workers) is not acceptable. Defaults to true.
+   */
+  allowFunctions?: boolean;
+
+  /**
+   * Data sent to every new worker (including replacements for crashed or
+   * reaped workers) in an 'init' message, before it receives any task. It is
+   * passed to the `onInit` hook of defineWorker() - e.g. to load a WASM module
+   * or build lookup tables once per worker.
+   *
+   * Setting it (to any value, even null) enables the handshake: a worker is
+   * only given tasks after it replied 'ready'. A worker whose initialization
+   * fails or times out counts as a startup failure (see maxStartupFailures).
+   */
+  initData?: any;
+
+  /**
+   * How long (in ms) a worker may take to answer the 'init' message.
+   * Defaults to 30000.
+   */
+  initTimeoutMs?: number;
+
+  /**
+   * What to do with a task whose `affinityKey` maps to a busy worker:
+   * - 'fallback': run it on any idle worker (default)
+   * - 'queue': wait for the preferred worker
+   */
+  affinityPolicy?: 'fallback' | 'queue';
+
+  /**
+   * Retires a worker after it has run this many tasks, e.g. to contain memory
+   * leaks in handler libraries. The worker finishes its current task first and
+   * is replaced right away. Defaults to 0 (unlimited).
+   */
+  maxTasksPerWorker?: number;
+
+  /**
+   * Retires a worker once it has been alive for this many milliseconds
+   * (after its current task, if busy). Defaults to 0 (unlimited).
+   */
+  maxWorkerLifetimeMs?: number;
+
+  /**
+   * Retires a worker once the JS heap usage it reports after a task exceeds
+   * this many megabytes. Requires workers built with defineWorker(); heap usage
+   * is available in Node.js (and Chromium-based browsers). Defaults to 0 (off).
+   */
+  maxWorkerHeapMb?: number;
+
+  /**
+   * Hard resource limits for Node.js workers the pool creates from a script path
+   * (pass them to `new Worker()` yourself when using a factory). A worker
+   * exceeding them is terminated by Node.js and handled like a crash.
+   */
+  resourceLimits?: WorkerResourceLimits;
+
+  /**
+   * Length of the rolling window (ms) for latency percentiles and throughput
+   * in getMetrics(). Defaults to 60000.
+   */
+  metricsWindowMs?: number;
+}
+
+/**
+ * Configuration for a ThreadPool holding several named pools, each with its
+ * own worker script and limits.
+ */
+export interface MultiPoolConfig {
+  /**
+   * Pool name -> pool configuration.
+   *
+   * Example: { image: { worker: './image.worker.js', maxWorkers: 4 }, parse: { worker: './parse.worker.js' } }
+   */
+  pools: Record<string, WorkerPoolConfig>;
+
+  /**
+   * Pool used when a call doesn't name one. Defaults to the pool named
+   * 'default' if there is one, otherwise the first pool listed.
+   */
+  defaultPool?: string;
+}
+
+/**
+ * Configuration for an inline pool (createInlinePool()). Worker-process options
+ * that don't apply on the main thread are left out.
+ */
+export interface InlinePoolConfig extends Omit<WorkerPoolConfig, 'worker' | 'maxWorkerHeapMb' | 'resourceLimits'> {
+  /**
+   * Initialization hook run by every inline worker, like defineWorker()'s `onInit`.
+   * Receives the pool's `initData`.
+   */
+  onInit?: (initData: any) => void | Promise<void>;
+}
+
+/**
+ * Behavior simulated by an inline pool for dispatches of a task type.
+ */
+export interface InlineSimulation {
+  /**
+   * Delays the start of the handler by this many milliseconds.
+   */
+  delayMs?: number;
+
+  /**
+   * Progress values reported (in order) before the handler runs.
+   */
+  progress?: any[];
+
+  /**
+   * Crashes the worker instead of running the handler, as if it died
+   * (handled like a real worker crash: retries, quarantine, circuit breaker).
+   * `true` crashes on every dispatch, a number only on that many next dispatches.
    */
-  worker: string | (() => Worker);
-}
\ No newline at end of file
+  crash?: boolean | number;
+}
+
+/**
+ * A task message dispatched to an inline worker.
+ */
+export interface DispatchRecord {
+  id: string;
+  taskType: string;
+  // Payload as received by the worker (after structured cloning).
+  payload: any;
+  // ID of the inline worker the task was sent to (1, 2, ... in creation order).
+  workerId: number;
+  // When the task was dispatched (Date.now()).
+  time: number;
+  // How the dispatch ended so far.
+  outcome: 'pending' | 'result' | 'error' | 'crash' | 'terminated';
+}
+
+/**
+ * State of a durable job.
+ * - queued: waiting to be run (again)
+ * - running: handed to the pool; replayed if the process stops before it settles
+ * - done: succeeded; the result is kept for `retainMs`
+ * - dead: failed `maxAttempts` times; kept in the dead-letter list until retried or removed
+ */
+export type JobStatus = 'queued' | 'running' | 'done' | 'dead';
+
+/**
+ * A durable job as saved in a JobStore. Payloads and results must survive
+ * the store's serialization (JSON for FileJobStore).
+ */
+export interface JobRecord {
+  id: string;
+  taskType: string;
+  payload: any;
+  status: JobStatus;
+  // Attempts started so far, including attempts interrupted by a restart.
+  attempts: number;
+  idempotencyKey?: string;
+  priority?: TaskPriority;
+  lane?: string;
+  timeoutMs?: number;
+  // Result of a 'done' job.
+  result?: any;
+  // Error of the latest failed attempt.
+  error?: SerializedError;
+  // Date.now() timestamps.
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Where a JobQueue keeps its jobs. Implementations may be asynchronous; the
+ * queue waits for save() before acknowledging a job to its caller.
+ */
+export interface JobStore {
+  // Returns every job saved and not deleted so far. Called once, on startup.
+  load(): Promise<JobRecord[]>;
+  // Saves the current state of a job, replacing any earlier state.
+  save(job: JobRecord): Promise<void>;
+  // Forgets a job.
+  delete(id: string): Promise<void>;
+  // Releases resources such as open files.
+  close?(): Promise<void>;
+}
+
+/**
+ * Options for JobQueue.add().
+ */
+export interface JobOptions {
+  /**
+   * Adding a job with the key of a job the queue still knows returns that
+   * job's ID instead of creating a new job.
+   */
+  idempotencyKey?: string;
+
+  // ID of the new job. Defaults to a random ID.
+  id?: string;
+
+  // Scheduling options passed to the pool for every attempt.
+  priority?: TaskPriority;
+  lane?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Options for a JobQueue.
+ */
+export interface JobQueueOptions {
+  // Where jobs are journaled: a JobStore, or the path of a FileJobStore journal (Node.js).
+  store: JobStore | string;
+
+  /**
+   * Attempts (including attempts interrupted by a restart) after which a job
+   * moves to the dead-letter list. Defaults to 3.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the second attempt, doubled for every further attempt
+   * (capped at 60s). Defaults to 1000.
+   */
+  backoffMs?: number;
+
+  /**
+   * How long results of finished jobs are kept for result(). Defaults to
+   * 24 hours.
+   */
+  retainMs?: number;
+
+  /**
+   * Called when the store fails to save a job's state (the error is logged
+   * either way). If the start of an attempt can't be saved, the attempt doesn't
+   * run: the job stays queued and is dispatched again after the backoff. Other
+   * state changes still apply in memory, but a restart replays the job from its
+   * last saved state.
+   */
+  onError?: (error: Error, job: JobRecord) => void;
+}
+
+// ============================================================================
+// TYPED TASK REGISTRY
+// ============================================================================
+
+/**
+ * Task map used when no registry is declared: any task name, any payload, any result.
+ */
+export type UntypedTaskMap = Record<string, (payload: any) => any>;
+
+/**
+ * Names of the tasks declared in a task map.
+ * A task map is an object of task type -> handler signature, e.g.
+ * `{ fibonacci: (n: number) => number }` or `typeof handlers` from defineWorker().
+ */
+export type TaskName<M> = {
+  [K in keyof M]: M[K] extends (...args: any[]) => any ? K : never
+}[keyof M] & string;
+
+/**
+ * Payload type of a task (the handler's first parameter).
+ */
+export type TaskPayload<M, K extends keyof M> =
+  M[K] extends (...args: infer A) => any
+    ? (A extends [] ? undefined : A[0])
+    : never;
+
+/**
+ * Arguments accepted after the task name. Handlers without parameters
+ * take no payload, so it may be omitted.
+ */
+export type TaskArgs<M, K extends keyof M> =
+  M[K] extends (...args: infer A) => any
+    ? (A extends []
+        ? [payload?: undefined, options?: Transferable[] | RunOptions]
+        : [payload: A[0], options?: Transferable[] | RunOptions])
+    : never;
+
+/**
+ * Result type of a task - the handler's return value, unwrapped from
+ * Promise and from transfer().
+ */
+export type TaskResult<M, K extends keyof M> =
+  M[K] extends (...args: any[]) => infer R
+    ? (Awaited<R> extends TransferResult<infer V> ? V : Awaited<R>)
+    : never;
+
+/**
+ * Item type of a streaming task - the values yielded by its (async) generator handler.
+ */
+export type TaskStreamItem<M, K extends keyof M> =
+  M[K] extends (...args: any[]) => infer R
+    ? (Awaited<R> extends AsyncIterable<infer T>
+        ? T
+        : Awaited<R> extends Iterable<infer T> ? T : never)
+    : never;
+
+/**
+ * Proxy-style API: one typed method per task, e.g. `pool.tasks.fibonacci(30)`.
+ */
+export type TaskProxy<M> = {
+  [K in TaskName<M>]: (...args: TaskArgs<M, K>) => Promise<TaskResult<M, K>>;
+};
@@ -0,0 +1,538 @@
+// ============================================================================
+// WORKER RUNTIME (worker side)
+// This runs inside the worker thread - it replaces the hand-written
+// onmessage -> switch (taskType) -> postMessage boilerplate.
+// ============================================================================
+
+import type {
+  WorkerMessage,
+  WorkerResponse,
+  WorkerUsage,
+  BatchItemResult,
+  GraphSegmentPayload,
+  GraphSegmentResult
+} from './types.js';
+import { serializeError } from './errors.js';
+
+/**
+ * Information about the task currently being handled, passed to every handler
+ * as its second argument.
+ */
+export interface TaskContext {
+  // Unique ID of the task (matches WorkerMessage.id).
+  id: string;
+
+  // The task type that was used to route the message to this handler.
+  taskType: string;
+
+  /**
+   * Sends a progress update for this task to the main thread, where it is
+   * delivered to the caller's `onProgress` callback. Calls made after the
+   * handler has returned are ignored.
+   */
+  reportProgress(value: any): void;
+
+  /**
+   * Aborted when the pool cancels this task (requires `cancelGracePeriodMs`
+   * on the pool, except for streams whose consumer stopped reading).
+   * Long-running handlers should check it and stop early.
+   */
+  signal: AbortSignal;
+
+  /**
+   * For tasks run by pool.graph() / pool.pipeline(): the results of the node's
+   * dependencies, keyed by node name.
+   */
+  inputs?: Record<string, any>;
+}
+
+/**
+ * A single task handler. Receives the task payload and may return the result
+ * directly or as a Promise. Handlers used with pool.stream() return an
+ * iterable or async iterable (e.g. a generator) whose values are sent as chunks.
+ */
+export type TaskHandler<P = any, R = any> = (payload: P, context: TaskContext) => R | Promise<R>;
+
+/**
+ * A map of task type -> handler, as passed to defineWorker().
+ */
+export type TaskHandlers = Record<string, TaskHandler>;
+
+/**
+ * One partition of a pool.parallelFor() call, passed to the handler as its payload.
+ * The handler processes indices [start, end) of `array` in place.
+ *
+ * With shared memory, `array` is the whole SharedArrayBuffer-backed array and
+ * `offset` is 0. Without it (fallback), `array` is a copy of just this
+ * partition, `start` is 0 and `offset` is the partition's position in the
+ * original array - so `offset + i` is always the index in the original array.
+ */
+export interface ParallelPartition<A = any> {
+  array: A;
+  start: number;
+  end: number;
+  offset: number;
+  // Position of this partition among all partitions.
+  index: number;
+
+  /**
+   * Adds to the items-processed counter reported to the caller's onProgress
+   * (an Atomics counter in shared memory - cheap enough to call per item).
+   */
+  progress(count?: number): void;
+}
+
+/**
+ * Options of defineWorker().
+ */
+export interface DefineWorkerOptions {
+  /**
+   * Runs once when the worker starts, with the pool's `initData`, before any
+   * task is handled - e.g. to load a WASM module or build lookup tables.
+   * The worker reports 'ready' when it settles; a throw (or rejection) is
+   * reported as a failed initialization.
+   */
+  onInit?: (initData: any) => void | Promise<void>;
+}
+
+// Brand used to recognize results wrapped with transfer().
+const TRANSFER = Symbol('thready.transfer');
+
+/**
+ * A handler result paired with the objects whose ownership should be
+ * transferred back to the main thread.
+ */
+export interface TransferResult<T = any> {
+  readonly [TRANSFER]: true;
+  value: T;
+  transferables: Transferable[];
+}
+
+/**
+ * Wraps a handler result so that the listed objects (e.g. ArrayBuffers) are
+ * transferred to the main thread instead of copied.
+ *
+ * @param value - The result to send back.
+ * @param transferables - Objects to transfer ownership of.
+ *
+ * @example
+ * processImage: ({ data }) => {
+ *   const pixels = grayscale(data);
+ *   return transfer(pixels, [pixels.buffer]);
+ * }
+ */
+export function transfer<T>(value: T, transferables: Transferable[]): TransferResult<T> {
+  return { [TRANSFER]: true, value, transferables };
+}
+
+/**
+ * Checks whether a handler result was wrapped with transfer().
+ */
+function isTransferResult(result: unknown): result is TransferResult {
+  return typeof result === 'object' && result !== null && (result as any)[TRANSFER] === true;
+}
+
+/**
+ * Minimal messaging surface shared by browser workers (`self`),
+ * Node.js worker_threads (`parentPort`) and inline workers.
+ */
+export interface WorkerPort {
+  postMessage(message: WorkerResponse, transferables?: Transferable[]): void;
+  onMessage(listener: (message: WorkerMessage) => void): void;
+}
+
+/**
+ * Detects the current worker environment and returns a port to talk to the main thread.
+ * Web Workers (and Bun/Deno) expose `self`; Node.js exposes `parentPort` from worker_threads.
+ */
+async function resolvePort(): Promise<WorkerPort> {
+  const scope = (globalThis as any).self;
+
+  if (scope && typeof scope.postMessage === 'function' && typeof scope.addEventListener === 'function') {
+    // Browser Web Worker (DedicatedWorkerGlobalScope)
+    return {
+      postMessage: (message, transferables) => {
+        if (transferables && transferables.length > 0) {
+          scope.postMessage(message, transferables);
+        } else {
+          scope.postMessage(message);
+        }
+      },
+      onMessage: (listener) => {
+        scope.addEventListener('message', (event: MessageEvent<WorkerMessage>) => listener(event.data));
+      }
+    };
+  }
+
+  // Node.js - load worker_threads lazily so browser bundles never include it.
+  const moduleName = 'worker_threads';
+  const { parentPort } = await import(/* @vite-ignore */ /* webpackIgnore: true */ moduleName);
+
+  if (!parentPort) {
+    throw new Error('defineWorker() must be called inside a worker thread');
+  }
+
+  return {
+    postMessage: (message, transferables) => {
+      if (transferables && transferables.length > 0) {
+        parentPort.postMessage(message, transferables);
+      } else {
+        parentPort.postMessage(message);
+      }
+    },
+    onMessage: (listener) => {
+      // worker_threads delivers the data directly, not wrapped in an event object.
+      parentPort.on('message', listener);
+    }
+  };
+}
+
+// Abort controllers of the tasks currently running in this worker, keyed by task ID.
+const runningTasks: Map<string, AbortController> = new Map();
+
+/**
+ * Flow-control state of a streaming task: how many more chunks the main thread
+ * is ready to receive, and the callback resuming a producer waiting for credit.
+ */
+interface StreamCredit {
+  available: number;
+  wake: (() => void) | null;
+}
+
+// Credit of the streaming tasks currently running in this worker, keyed by task ID.
+const streamCredits: Map<string, StreamCredit> = new Map();
+
+/**
+ * Measures the worker's heap usage (and event loop utilization in Node.js),
+ * reported to the pool after every task for memory-based recycling.
+ *
+ * @returns The usage, or undefined where the runtime doesn't expose heap usage.
+ */
+function measureUsage(): WorkerUsage | undefined {
+  const proc = (globalThis as any).process;
+  const perf = (globalThis as any).performance;
+
+  const heapUsed: number | undefined = typeof proc?.memoryUsage === 'function'
+    ? proc.memoryUsage().heapUsed
+    : perf?.memory?.usedJSHeapSize;
+  if (heapUsed === undefined) return undefined;
+
+  const usage: WorkerUsage = { heapUsed };
+  if (typeof perf?.eventLoopUtilization === 'function') {
+    usage.eventLoopUtilization = perf.eventLoopUtilization().utilization;
+  }
+  return usage;
+}
+
+/**
+ * Runs a single task message through its handler and posts the outcome back.
+ */
+async function handleTask(port: WorkerPort, handlers: TaskHandlers, message: WorkerMessage): Promise<void> {
+  const { id } = message;
+  const taskType = message.taskType ?? '';
+  const controller = new AbortController();
+  runningTasks.set(id, controller);
+
+  // Once the handler settles, late progress reports must not reach the main thread.
+  let settled = false;
+  const reportProgress = (value: any): void => {
+    if (settled) return;
+    port.postMessage({ id, type: 'progress', payload: value });
+  };
+
+  try {
+    const handler = Object.prototype.hasOwnProperty.call(handlers, taskType) ? handlers[taskType] : undefined;
+
+    if (typeof handler !== 'function') {
+      throw new Error(`Unknown task type: ${taskType}`);
+    }
+
+    const context: TaskContext = {
+      id,
+      taskType,
+      reportProgress,
+      signal: controller.signal
+    };
+
+    // Await so that async handlers are supported transparently.
+    let result: any;
+    if (message.batch) {
+      result = await runBatch(handler, message.payload, context);
+    } else if (message.parallel) {
+      result = await runPartition(handler, message.payload, context);
+    } else if (message.graph) {
+      result = await runGraphSegment(handlers, message.payload, context);
+    } else if (message.streamCredit !== undefined) {
+      // The final (empty) result marks the end of the stream.
+      result = await runStream(port, await handler(message.payload, context), message.streamCredit, context);
+    } else {
+      result = await handler(message.payload, context);
+    }
+    settled = true;
+
+    const usage = measureUsage();
+    if (isTransferResult(result)) {
+      port.postMessage({ id, type: 'result', payload: result.value, ...(usage && { usage }) }, result.transferables);
+    } else {
+      port.postMessage({ id, type: 'result', payload: result, ...(usage && { usage }) });
+    }
+  } catch (error) {
+    settled = true;
+    const usage = measureUsage();
+    const response: WorkerResponse = {
+      id,
+      type: 'error',
+      payload: error instanceof Error ? error.message : String(error),
+      error: serializeError(error),
+      ...(usage && { usage })
+    };
+
+    try {
+      port.postMessage(response);
+    } catch {
+      // Some custom field couldn't be cloned - send the error without them.
+      const { props, ...withoutProps } = response.error!;
+      port.postMessage({ ...response, error: withoutProps });
+    }
+  } finally {
+    runningTasks.delete(id);
+  }
+}
+
+/**
+ * Answers the pool's 'init' message: runs the onInit hook, then reports 'ready'
+ * (or the error that made initialization fail).
+ */
+async function handleInit(port: WorkerPort, options: DefineWorkerOptions, message: WorkerMessage): Promise<void> {
+  try {
+    await options.onInit?.(message.payload);
+    port.postMessage({ id: message.id, type: 'ready', payload: null });
+  } catch (error) {
+    port.postMessage({
+      id: message.id,
+      type: 'error',
+      payload: error instanceof Error ? error.message : String(error),
+      error: serializeError(error)
+    });
+  }
+}
+
+/**
+ * Runs a handler once per item of a batch (sent by pool.map()) and collects the
+ * outcome of every item, so one failing item doesn't lose the others' results.
+ *
+ * @returns The per-item results, wrapped with transfer() if any handler transferred objects.
+ */
+async function runBatch(
+  handler: TaskHandler,
+  items: ArrayLike<any>,
+  context: TaskContext
+): Promise<BatchItemResult[] | TransferResult<BatchItemResult[]>> {
+  const results: BatchItemResult[] = [];
+  const transferables: Transferable[] = [];
+
+  for (let i = 0; i < items.length; i++) {
+    try {
+      const value = await handler(items[i], context);
+
+      if (isTransferResult(value)) {
+        transferables.push(...value.transferables);
+        results.push({ ok: true, value: value.value });
+      } else {
+        results.push({ ok: true, value });
+      }
+    } catch (error) {
+      results.push({ ok: false, error: serializeError(error) });
+    }
+  }
+
+  return transferables.length > 0 ? transfer(results, transferables) : results;
+}
+
+/**
+ * Runs a chain of graph nodes (sent by pool.graph()), passing each node's
+ * result straight to the next one, so intermediate results never leave the
+ * worker. Stops at the first node that throws and reports which one it was.
+ *
+ * @returns The last node's result (kept back if discarded), wrapped with
+ * transfer() if its handler transferred objects.
+ */
+async function runGraphSegment(
+  handlers: TaskHandlers,
+  segment: GraphSegmentPayload,
+  context: TaskContext
+): Promise<GraphSegmentResult | TransferResult<GraphSegmentResult>> {
+  let inputs = segment.inputs;
+  let value: any;
+  let transferables: Transferable[] = [];
+
+  for (const stage of segment.stages) {
+    try {
+      const handler = Object.prototype.hasOwnProperty.call(handlers, stage.taskType) ? handlers[stage.taskType] : undefined;
+      if (typeof handler !== 'function') {
+        throw new Error(`Unknown task type: ${stage.taskType}`);
+      }
+
+      const names = Object.keys(inputs);
+      const payload = stage.hasPayload ? stage.payload : names.length === 1 ? inputs[names[0]!] : names.length > 1 ? inputs : undefined;
+      const result = await handler(payload, { ...context, taskType: stage.taskType, inputs });
+
+      if (isTransferResult(result)) {
+        value = result.value;
+        transferables = result.transferables;
+      } else {
+        value = result;
+        transferables = [];
+      }
+    } catch (error) {
+      return { ok: false, node: stage.node, error: serializeError(error) };
+    }
+
+    inputs = { [stage.node]: value };
+  }
+
+  if (segment.discard) return { ok: true, value: undefined };
+  return transferables.length > 0 ? transfer({ ok: true, value }, transferables) : { ok: true, value };
+}
+
+/**
+ * Runs a handler on one partition of a parallelFor(). Results are written into
+ * the array in place; without shared memory, the partition's copy is
+ * transferred back so the pool can copy it into the original array.
+ */
+async function runPartition(handler: TaskHandler, payload: any, context: TaskContext): Promise<any> {
+  const { array, start, end, offset, index, counters } = payload;
+  const partition: ParallelPartition = {
+    array,
+    start,
+    end,
+    offset,
+    index,
+    progress: (count = 1) => {
+      if (counters) {
+        Atomics.add(counters, 0, count);
+      } else {
+        context.reportProgress(count);
+      }
+    }
+  };
+
+  await handler(partition, context);
+  return counters ? undefined : transfer(array, [array.buffer]);
+}
+
+/**
+ * Iterates a streaming handler's result and posts every value as a 'chunk'
+ * message. Only as many chunks as the main thread has granted credit for are
+ * sent; the producer is paused until more 'credit' messages arrive, so a slow
+ * consumer doesn't fill up memory on either side.
+ *
+ * @param source - The (async) iterable returned by the handler.
+ * @param credit - Number of chunks that may be sent before waiting for credit.
+ */
+async function runStream(
+  port: WorkerPort,
+  source: any,
+  credit: number,
+  context: TaskContext
+): Promise<undefined> {
+  const { id, taskType, signal } = context;
+  const iterator: Iterator<any> | AsyncIterator<any> | undefined =
+    source?.[Symbol.asyncIterator]?.() ?? source?.[Symbol.iterator]?.();
+
+  if (!iterator) {
+    throw new Error(`Streaming task "${taskType}" must return an iterable or async iterable`);
+  }
+
+  const state: StreamCredit = { available: credit, wake: null };
+  const onAbort = () => state.wake?.();
+  streamCredits.set(id, state);
+  signal.addEventListener('abort', onAbort);
+
+  try {
+    while (true) {
+      // Backpressure: wait until the consumer has room for another chunk.
+      while (state.available <= 0 && !signal.aborted) {
+        await new Promise<void>((resolve) => { state.wake = resolve; });
+        state.wake = null;
+      }
+
+      // The consumer stopped reading - let the generator run its cleanup.
+      if (signal.aborted) {
+        await iterator.return?.();
+        throw new Error(`Streaming task "${taskType}" was cancelled`);
+      }
+
+      const next = await iterator.next();
+      if (next.done) return undefined;
+
+      state.available--;
+      if (isTransferResult(next.value)) {
+        port.postMessage({ id, type: 'chunk', payload: next.value.value }, next.value.transferables);
+      } else {
+        port.postMessage({ id, type: 'chunk', payload: next.value });
+      }
+    }
+  } finally {
+    streamCredits.delete(id);
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Answers the pool's messages arriving on a port with the given handlers.
+ * Used by defineWorker() and by the inline workers of createInlinePool().
+ *
+ * @internal
+ */
+export function serveWorker(port: WorkerPort, handlers: TaskHandlers, options: DefineWorkerOptions = {}): void {
+  port.onMessage((message) => {
+    if (!message) return;
+
+    if (message.type === 'init') {
+      void handleInit(port, options, message);
+    } else if (message.type === 'task') {
+      void handleTask(port, handlers, message);
+    } else if (message.type === 'cancel') {
+      // Cooperative cancellation - signal the running handler to stop.
+      runningTasks.get(message.id)?.abort();
+    } else if (message.type === 'credit') {
+      // The consumer of a stream made room for more chunks.
+      const state = streamCredits.get(message.id);
+      if (state) {
+        state.available += message.payload;
+        state.wake?.();
+      }
+    }
+  });
+}
+
+/**
+ * Declares the task handlers of a worker script and starts listening for tasks.
+ * Works in browser Web Workers and in Node.js worker_threads.
+ *
+ * @param handlers - Map of task type -> handler function.
+ * @param options - Optional initialization hook.
+ * @returns The same handlers object (useful for deriving types from it).
+ *
+ * @example
+ * // thready.worker.mjs
+ * import { defineWorker } from 'thready-js/worker';
+ *
+ * defineWorker({
+ *   fibonacci: (n) => fib(n),
+ *   fetchUser: async (id) => (await fetch(`/users/${id}`)).json()
+ * });
+ */
+export function defineWorker<H extends TaskHandlers>(handlers: H, options: DefineWorkerOptions = {}): H {
+  resolvePort()
+    .then((port) => serveWorker(port, handlers, options))
+    .catch((error) => {
+      // Rethrow outside the promise chain so the pool sees it as a worker error.
+      setTimeout(() => {
+        throw error;
+      });
+    });
+
+  return handlers;
+}
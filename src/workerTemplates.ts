@@ -1,61 +1,89 @@
-import { writeFileSync, existsSync, mkdirSync } from 'fs';
-import { join } from 'path';
-
-const browserWorkerTemplate = `// Thready Browser Worker
-self.onmessage = function(event) {
-  const { id, taskType, payload } = event.data;
-  
-  try {
-    let result;
-    
-    // Add your custom task handlers here
-    switch (taskType) {
-      case 'example':
-        result = payload * 2;
-        break;
-      default:
-        throw new Error(\`Unknown task type: \${taskType}\`);
-    }
-    
-    self.postMessage({ id, type: 'result', payload: result });
-  } catch (error) {
-    self.postMessage({ id, type: 'error', payload: error.message });
-  }
-};
-`;
+import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
+import { join, relative } from 'path';
 
-const nodeWorkerTemplate = `// Thready Node.js Worker
-import { parentPort } from 'worker_threads';
+export type InitTarget = 'node' | 'browser' | 'both';
+export type InitFramework = 'vite' | 'webpack';
 
-if (!parentPort) {
-  throw new Error('This script must be run as a worker thread');
+/**
+ * Options of `thready init`.
+ */
+export interface InitOptions {
+  // Runtime(s) the generated files are for.
+  target: InitTarget;
+  // Generate a typed TypeScript worker and config instead of JavaScript.
+  typescript: boolean;
+  // Bundler used to load the browser worker.
+  framework?: InitFramework;
 }
 
-parentPort.on('message', (message) => {
-  const { id, taskType, payload } = message;
-  
-  try {
-    let result;
-    
-    // Add your custom task handlers here
-    switch (taskType) {
-      case 'example':
-        result = payload * 2;
-        break;
-      default:
-        throw new Error(\`Unknown task type: \${taskType}\`);
-    }
-    
-    parentPort.postMessage({ id, type: 'result', payload: result });
-  } catch (error) {
-    parentPort.postMessage({ id, type: 'error', payload: error.message });
+// Worker file names `thready add-task` looks for, in the thready-js folder.
+const WORKER_FILES = ['thready.worker.ts', 'thready.worker.mjs', 'thready.worker.js'];
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// Where files loaded by a browser without a bundler import thready from:
+// browsers can't resolve bare specifiers such as 'thready-js/worker'.
+const UNBUNDLED_PATH = '../node_modules/thready-js/dist';
+
+function importComment(bundled: boolean): string {
+  return bundled ? '' : `// Imported by path: the browser loads this file without a bundler.\n`;
+}
+
+function workerTemplate(runtime: string, typescript: boolean, bundled = true): string {
+  const source = bundled ? 'thready-js/worker' : `${UNBUNDLED_PATH}/worker.js`;
+
+  if (typescript) {
+    return `// Thready Worker (${runtime})
+${importComment(bundled)}import { defineWorker } from '${source}';
+
+// Add your custom task handlers here.
+// Each key is a task type, each value receives the payload and returns the result
+// (async handlers are supported too). Their payload and result types are checked
+// by \`thready.execute()\` through thready.config.ts.
+export const tasks = defineWorker({
+  example: (payload: number): number => payload * 2,
+});
+`;
   }
+
+  return `// Thready ${runtime} Worker
+${importComment(bundled)}import { defineWorker } from '${source}';
+
+// Add your custom task handlers here.
+// Each key is a task type, each value receives the payload and returns the result
+// (async handlers are supported too).
+defineWorker({
+  example: (payload) => payload * 2,
+});
+`;
+}
+
+function nodeConfigTemplate(typescript: boolean): string {
+  if (typescript) {
+    return `// Thready Configuration (Node.js)
+import { threadPool } from 'thready-js';
+import { Worker } from 'worker_threads';
+import { availableParallelism } from 'os';
+import type { tasks } from './thready.worker.js';
+
+// Initialize thready with your configuration
+threadPool.init({
+  // One worker per CPU core. Measure the best size for your tasks with
+  // \`npx thready bench thready-js/thready.worker.js <taskType>\`.
+  maxWorkers: availableParallelism(),
+  // The compiled worker (thready.worker.ts -> thready.worker.js) next to this file.
+  worker: () => new Worker(new URL('./thready.worker.js', import.meta.url)),
 });
+
+// Export a typed view for use in your application
+export default threadPool.withTasks<typeof tasks>();
 `;
+  }
 
-const configTemplate = `// Thready Configuration
+  return `// Thready Configuration (Node.js)
 import thready from 'thready-js';
 import { Worker } from 'worker_threads';
+import { availableParallelism } from 'os';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 
@@ -64,49 +92,214 @@ const __dirname = dirname(__filename);
 
 // Initialize thready with your configuration
 thready.init({
-  maxWorkers: 4,
+  // One worker per CPU core. Measure the best size for your tasks with
+  // \`npx thready bench thready-js/thready.worker.mjs <taskType>\`.
+  maxWorkers: availableParallelism(),
   worker: () => new Worker(join(__dirname, './thready.worker.mjs'), { type: 'module' }),
 });
 
 // Export for use in your application
 export default thready;
 `;
+}
+
+function browserConfigTemplate(typescript: boolean, framework: InitFramework | undefined): string {
+  const workerFile = typescript ? 'thready.worker.ts' : 'thready.worker.js';
+  const lines: string[] = ['// Thready Configuration (browser)'];
+
+  const source = framework ? 'thready-js' : `${UNBUNDLED_PATH}/index.js`;
+  if (!framework) lines.push(importComment(false).trimEnd());
+  lines.push(typescript ? `import { threadPool } from '${source}';` : `import thready from '${source}';`);
+  if (typescript) lines.push(`import type { tasks } from './thready.worker.js';`);
+
+  let worker: string;
+  if (framework === 'vite') {
+    lines.push(`// Vite bundles the worker and its imports as a separate chunk.`);
+    lines.push(`import ThreadyWorker from './${workerFile}?worker';`);
+    worker = `() => new ThreadyWorker()`;
+  } else if (framework === 'webpack') {
+    lines.push(`// webpack 5 bundles workers created with \`new URL(..., import.meta.url)\`.`);
+    worker = `() => new Worker(new URL('./${workerFile}', import.meta.url), { type: 'module' })`;
+  } else {
+    // Without a bundler the browser loads the compiled worker script.
+    worker = `() => new Worker(new URL('./thready.worker.js', import.meta.url), { type: 'module' })`;
+  }
+
+  lines.push('');
+  lines.push('// Initialize thready with your configuration');
+  lines.push(`${typescript ? 'threadPool' : 'thready'}.init({`);
+  lines.push(`  // One worker per logical CPU core reported by the browser.`);
+  lines.push(`  maxWorkers: navigator.hardwareConcurrency || 4,`);
+  lines.push(`  worker: ${worker},`);
+  lines.push('});');
+  lines.push('');
+
+  if (typescript) {
+    lines.push('// Export a typed view for use in your application');
+    lines.push('export default threadPool.withTasks<typeof tasks>();');
+  } else {
+    lines.push('// Export for use in your application');
+    lines.push('export default thready;');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes a file unless it already exists.
+ */
+function writeTemplate(threadyDir: string, name: string, content: string, label: string): void {
+  const path = join(threadyDir, name);
+  if (existsSync(path)) {
+    console.log(`⚠ thready-js/${name} already exists, skipping...`);
+    return;
+  }
 
-export function init() {
+  writeFileSync(path, content);
+  console.log(`✓ Created thready-js/${name}${label ? ` (${label})` : ''}`);
+}
+
+export function init(options: InitOptions = { target: 'both', typescript: false }) {
+  const { target, typescript, framework } = options;
   const cwd = process.cwd();
   const threadyDir = join(cwd, 'thready-js');
-  
+  const ext = typescript ? 'ts' : 'js';
+  const node = target !== 'browser';
+  const browser = target !== 'node';
+
   // Create thready-js directory if it doesn't exist
   if (!existsSync(threadyDir)) {
     mkdirSync(threadyDir, { recursive: true });
   }
-  
-  // Create thready.config.js
-  const configPath = join(threadyDir, 'thready.config.js');
-  if (!existsSync(configPath)) {
-    writeFileSync(configPath, configTemplate);
-    console.log('✓ Created thready-js/thready.config.js');
-  } else {
-    console.log('⚠ thready-js/thready.config.js already exists, skipping...');
+
+  // Create the config(s): thready.config is the Node.js one when there are both.
+  if (node) {
+    writeTemplate(threadyDir, `thready.config.${ext}`, nodeConfigTemplate(typescript), browser ? 'node' : '');
   }
-  
-  // Create browser worker
-  const browserWorkerPath = join(threadyDir, 'thready.worker.js');
-  if (!existsSync(browserWorkerPath)) {
-    writeFileSync(browserWorkerPath, browserWorkerTemplate);
-    console.log('✓ Created thready-js/thready.worker.js (browser)');
+  if (browser) {
+    const name = node ? `thready.browser.config.${ext}` : `thready.config.${ext}`;
+    writeTemplate(threadyDir, name, browserConfigTemplate(typescript, framework), node ? 'browser' : '');
   }
-  
-  // Create node worker
-  const nodeWorkerPath = join(threadyDir, 'thready.worker.mjs');
-  if (!existsSync(nodeWorkerPath)) {
-    writeFileSync(nodeWorkerPath, nodeWorkerTemplate);
-    console.log('✓ Created thready-js/thready.worker.mjs (node)');
+
+  // Create the worker(s). A TypeScript worker runs in both environments once compiled.
+  if (typescript) {
+    const runtime = target === 'both' ? 'Node.js and browser' : target === 'node' ? 'Node.js' : 'browser';
+    writeTemplate(threadyDir, 'thready.worker.ts', workerTemplate(runtime, true, !browser || framework !== undefined), '');
+  } else {
+    if (browser) writeTemplate(threadyDir, 'thready.worker.js', workerTemplate('Browser', false, framework !== undefined), 'browser');
+    if (node) writeTemplate(threadyDir, 'thready.worker.mjs', workerTemplate('Node.js', false), 'node');
   }
-  
+
+  const workerFile = typescript ? 'thready.worker.ts' : node ? 'thready.worker.mjs' : 'thready.worker.js';
+
   console.log('\n🎉 Thready initialized successfully!');
   console.log('\nNext steps:');
-  console.log('  1. Edit thready-js/thready.config.js to configure your thread pool');
-  console.log('  2. Add your task handlers in thready-js/thready.worker.mjs');
+  console.log(`  1. Edit thready-js/thready.config.${ext} to configure your thread pool`);
+  console.log(`  2. Add your task handlers in thready-js/${workerFile} (or run: npx thready add-task <name>)`);
   console.log('  3. Import and use: import thready from "./thready-js/thready.config.js"\n');
-}
\ No newline at end of file
+}
+
+/**
+ * Finds the handler object literal passed to defineWorker() in a worker's
+ * source: the index of its closing brace and of the last code character
+ * before it, skipping strings and comments.
+ */
+function findHandlers(source: string): { close: number; lastCode: number } | null {
+  const call = source.indexOf('defineWorker(');
+  if (call === -1) return null;
+
+  let i = call + 'defineWorker('.length;
+  while (i < source.length && /\s/.test(source[i]!)) i++;
+  if (source[i] !== '{') return null;
+
+  let depth = 0;
+  let lastCode = i;
+  for (; i < source.length; i++) {
+    const char = source[i]!;
+
+    if (char === '/' && source[i + 1] === '/') {
+      i = source.indexOf('\n', i);
+      if (i === -1) return null;
+      continue;
+    }
+    if (char === '/' && source[i + 1] === '*') {
+      i = source.indexOf('*/', i + 2) + 1;
+      if (i === 0) return null;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      for (i++; i < source.length && source[i] !== char; i++) {
+        if (source[i] === '\\') i++;
+      }
+      lastCode = i;
+      continue;
+    }
+
+    if (char === '{') depth++;
+    if (char === '}' && --depth === 0) return { close: i, lastCode };
+    if (!/\s/.test(char)) lastCode = i;
+  }
+  return null;
+}
+
+/**
+ * Adds a handler stub for a new task type to the generated worker(s).
+ *
+ * @param name - The task type; must be a valid identifier.
+ * @param worker - Path of the worker to edit. Defaults to the workers in thready-js/.
+ * @throws Error if the name is invalid or no worker with a `defineWorker({ ... })` call is found.
+ */
+export function addTask(name: string, worker?: string) {
+  if (!IDENTIFIER.test(name)) {
+    throw new Error(`"${name}" is not a valid task name (use letters, digits, _ and $)`);
+  }
+
+  const cwd = process.cwd();
+  const paths = worker
+    ? [join(cwd, worker)]
+    : WORKER_FILES.map(file => join(cwd, 'thready-js', file)).filter(path => existsSync(path));
+
+  if (paths.length === 0) {
+    throw new Error('No worker found in thready-js/. Run `npx thready init` first, or pass --worker <path>');
+  }
+
+  for (const path of paths) {
+    const file = relative(cwd, path);
+    if (!existsSync(path)) {
+      throw new Error(`${file} does not exist`);
+    }
+
+    const source = readFileSync(path, 'utf8');
+    const handlers = findHandlers(source);
+    if (!handlers) {
+      throw new Error(`Could not find a \`defineWorker({ ... })\` call in ${file}`);
+    }
+
+    const body = source.slice(source.indexOf('defineWorker('), handlers.close);
+    if (new RegExp(`[\\s,{]${name.replace(/\$/g, '\\$')}\\s*[:(,]`).test(body)) {
+      console.log(`⚠ ${file} already has a "${name}" task, skipping...`);
+      continue;
+    }
+
+    const typed = path.endsWith('.ts');
+    const stub = typed
+      ? `  ${name}: async (payload: unknown): Promise<unknown> => {\n` +
+        `    throw new Error('Task "${name}" is not implemented yet');\n` +
+        `  },\n`
+      : `  ${name}: async (payload) => {\n` +
+        `    throw new Error('Task "${name}" is not implemented yet');\n` +
+        `  },\n`;
+
+    // Add a comma after the last handler if it has none, then the stub before the closing brace.
+    let head = source.slice(0, handlers.close);
+    const needsComma = !'{,'.includes(source[handlers.lastCode]!);
+    if (needsComma) head = head.slice(0, handlers.lastCode + 1) + ',' + head.slice(handlers.lastCode + 1);
+
+    const indent = /[ \t]*$/.exec(head)![0];
+    head = head.slice(0, head.length - indent.length);
+    if (!head.endsWith('\n')) head += '\n';
+
+    writeFileSync(path, head + stub + indent + source.slice(handlers.close));
+    console.log(`✓ Added task "${name}" to ${file}`);
+  }
+}
@@ -1,22 +1,40 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
-  entry: {
-    index: 'src/index.ts',
-    cli: 'src/cli.ts',
-  },
-  format: ['esm', 'cjs'],
-  sourcemap: true,
-  clean: true,
-  splitting: false,
-  platform: 'node',
-  dts: {
+export default defineConfig([
+  // Library entries (also loaded in browsers and workers): no shebang.
+  {
     entry: {
       index: 'src/index.ts',
+      worker: 'src/worker.ts',
+      react: 'src/react.tsx',
+    },
+    format: ['esm', 'cjs'],
+    sourcemap: true,
+    // Leaves the CLI build's output alone, as both builds run at the same time.
+    clean: ['!cli.*'],
+    splitting: false,
+    platform: 'node',
+    dts: {
+      entry: {
+        index: 'src/index.ts',
+        worker: 'src/worker.ts',
+        react: 'src/react.tsx',
+      },
     },
+    outDir: 'dist',
   },
-  outDir: 'dist',
-  banner: {
-    js: '#!/usr/bin/env node',
+  // The `thready` executable.
+  {
+    entry: {
+      cli: 'src/cli.ts',
+    },
+    format: ['esm', 'cjs'],
+    sourcemap: true,
+    splitting: false,
+    platform: 'node',
+    outDir: 'dist',
+    banner: {
+      js: '#!/usr/bin/env node',
+    },
   },
-});
+]);